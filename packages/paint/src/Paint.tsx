@@ -2,14 +2,200 @@
 
 import {
   forwardRef,
+  KeyboardEvent as ReactKeyboardEvent,
+  PointerEvent as ReactPointerEvent,
   ReactNode,
   useEffect,
+  useId,
   useImperativeHandle,
   useRef,
   useState,
 } from "react";
 import classes from "./Paint.module.css";
 import colorBrightness from "./colorBrightness";
+import {
+  IconBrush,
+  IconArrow,
+  IconBucket,
+  IconCopy,
+  IconEllipse,
+  IconEraser,
+  IconEye,
+  IconEyedropper,
+  IconEyeOff,
+  IconGradient,
+  IconLasso,
+  IconLine,
+  IconMergeDown,
+  IconPalette,
+  IconPlus,
+  IconPolygon,
+  IconRect,
+  IconRedo,
+  IconSelect,
+  IconText,
+  IconTrash,
+  IconUndo,
+} from "./icons";
+import {
+  backgroundPlacement,
+  decodeImage,
+  drawBackground,
+  type BackgroundPlacement,
+  type PaintBackgroundFit,
+  type PaintImageSource,
+} from "./background";
+import {
+  contentBounds,
+  createCanvas,
+  get2d,
+  type Ctx2D,
+} from "./draw";
+import PaintHistory, {
+  cropImageData,
+  rectFromPoints,
+  type PixelRect,
+} from "./history";
+import {
+  compositeLayer,
+  createLayer,
+  cssBlendMode,
+  flattenLayers,
+  PAINT_BLEND_MODES,
+  type PaintLayer,
+} from "./layers";
+import {
+  drawShape,
+  isShapeTool,
+  PAINT_SHAPES,
+  rectFromShape,
+  shapeGeometry,
+  type PaintShapeKind,
+  type PaintShapeStyle,
+} from "./shapes";
+import {
+  cssFont,
+  DEFAULT_TEXT_OPTIONS,
+  measureTextBlock,
+  rectFromText,
+  TEXT_LINE_HEIGHT,
+  type PaintTextOptions,
+} from "./text";
+import {
+  drawFloating,
+  drawMarquee,
+  drawSelectionChrome,
+  dragFloating,
+  floatBounds,
+  hitTestFloating,
+  liftRegion,
+  pathBounds,
+  unionRect,
+  type FloatTransform,
+  type SelectionHandle,
+  type SelectionRegion,
+} from "./selection";
+import {
+  fitViewport,
+  toDocument,
+  zoomAt,
+  type PaintViewport,
+} from "./viewport";
+import {
+  cacheImage,
+  fillBoundary,
+  fillOp,
+  gradientOp,
+  loadImages,
+  PAINT_DOCUMENT_VERSION,
+  parseDocument,
+  renderOp,
+  renderOps,
+  type PaintDocument,
+  type PaintOp,
+  type PaintFill,
+  type PaintGradient,
+  type PaintPoint,
+  type PaintStroke,
+} from "./paintDocument";
+import { createStrokeSmoother, type StrokeSmoother } from "./smoothing";
+import {
+  composeMerged,
+  DEFAULT_FILL_OPTIONS,
+  fillRegion,
+  type PaintFillOptions,
+  type PaintFillPaint,
+} from "./fill";
+import { sampleColor } from "./eyedropper";
+import {
+  comboFor,
+  formatCombo,
+  resolveKeymap,
+  type PaintCommand,
+  type PaintKeymap,
+} from "./keymap";
+import {
+  cssGradient,
+  DEFAULT_GRADIENT_OPTIONS,
+  drawGradient,
+  PAINT_GRADIENT_KINDS,
+  sortStops,
+  type PaintGradientKind,
+  type PaintGradientOptions,
+} from "./gradient";
+import { createStrokePreview, type StrokePreview } from "./liveStroke";
+import { deletePersisted, readPersisted, writePersisted } from "./persist";
+import {
+  createRecorder,
+  type PaintRecording,
+  type Recorder,
+} from "./recording";
+import {
+  applyRemoteOps,
+  compareStamps,
+  createPeerId,
+  insertStamped,
+  layerChanges,
+  mergeLayerEntries,
+  peerColor,
+  stackFromEntries,
+  stampedOps,
+  type PaintCollabAdapter,
+  type PaintCollabMessage,
+  type PaintLayerEntry,
+  type PaintOpStamp,
+  type PaintPeer,
+  type PaintRemotePeer,
+} from "./collab";
+import {
+  DEFAULT_SYMMETRY,
+  PAINT_SYMMETRY_MODES,
+  symmetricBrush,
+  symmetricPoints,
+  symmetryAxes,
+  symmetryGuideAngles,
+  type PaintSymmetry,
+  type PaintSymmetryMode,
+} from "./symmetry";
+import type { StrokeWorkerMessage } from "./strokeWorker";
+import {
+  DEFAULT_GRID,
+  PAINT_GRID_KINDS,
+  drawGrid,
+  snapPoint,
+  type PaintGrid,
+  type PaintGridKind,
+  type PaintGuide,
+} from "./grid";
+import { documentToSvg } from "./svg";
+import {
+  brushLookup,
+  PAINT_BRUSHES,
+  roundBrush,
+  strokePad,
+  type Brush,
+} from "./brushes";
+import useControllableState from "./useControllableState";
 
 const cx = (...args: (string | undefined)[]) => args.filter(Boolean).join(" ");
 
@@ -20,9 +206,124 @@ export const PAINT_MOCKDATA = ["#000", "#EF626C", "#FDEC03", "#24D102", "#FFF"];
 /** Imperative handle exposed via ref. */
 export type PaintHandle = {
   clearCanvas(): void;
-  saveImage(): void;
+  /**
+   * Exports the visible layers (see `toBlob`) and hands the file to `onSave`,
+   * or downloads it when there's no `onSave`. Options default to the
+   * `saveOptions` prop. Returns straight away; failures go to `onSaveError`.
+   */
+  saveImage(options?: PaintSaveOptions): void;
+  /**
+   * Renders the visible layers, over the background image unless
+   * `background: false`, without downloading anything. Raster formats are
+   * re-rendered from the document, so any `scale` stays sharp.
+   */
+  toBlob(options?: PaintExportOptions): Promise<Blob>;
+  /** Same as `toBlob`, as a data URL. */
+  toDataURL(options?: PaintExportOptions): Promise<string>;
+  /**
+   * Sets the image under the layers (e.g. a screenshot to annotate), placed
+   * by `fit` (defaults to the `backgroundFit` prop). `null` removes it. Not
+   * undoable; resolves once the image has decoded.
+   */
+  loadImage(
+    image: PaintImageSource | null,
+    fit?: PaintBackgroundFit,
+  ): Promise<void>;
+  /** Zooms about the centre of the view (clamped to 0.1–16). */
+  setZoom(zoom: number): void;
+  /** Fits the whole document in view (at most 100%) and centres it. */
+  resetView(): void;
+  /** Step back one stroke / fill / clear. No-op when there's nothing to undo. */
+  undo(): void;
+  /** Re-apply the last undone change. No-op when there's nothing to redo. */
+  redo(): void;
+  readonly canUndo: boolean;
+  readonly canRedo: boolean;
+  /**
+   * Snapshot of the drawing as a versioned, JSON-serialisable layer stack plus
+   * the strokes, fills, clears and merges that produced it.
+   */
+  exportDocument(): PaintDocument;
+  /**
+   * Replaces the drawing with a document from `exportDocument()` (object or
+   * JSON string), rebuilding its layers and re-rendering every op. Clears
+   * undo history. Resolves once any embedded images have decoded; rejects if
+   * the document is malformed or from a newer version.
+   */
+  loadDocument(doc: PaintDocument | string): Promise<void>;
+  /**
+   * Starts recording every change to the drawing, with the timing of each
+   * stroke's points, for `PaintPlayer` to play back. Restarts a recording
+   * already under way.
+   */
+  startRecording(): void;
+  /** Ends the recording and returns it, or null when none was under way. */
+  stopRecording(): PaintRecording | null;
+  /**
+   * Deletes the drawing saved under `persistKey`, including a save that's
+   * still pending. Later changes are saved again as usual.
+   */
+  clearPersisted(): Promise<void>;
+};
+
+/** Export formats. SVG is vector where the document allows (see README). */
+export type PaintImageType =
+  | "image/png"
+  | "image/jpeg"
+  | "image/webp"
+  | "image/svg+xml";
+
+export type PaintExportOptions = {
+  /** @default "image/png" */
+  type?: PaintImageType;
+  /** 0–1, for JPEG and WebP. The browser's default when omitted. */
+  quality?: number;
+  /**
+   * Output pixels per document unit. For SVG, only the resolution of layers
+   * that have to be embedded as images.
+   * @default the device pixel ratio
+   */
+  scale?: number;
+  /** Include the background image in the export. @default true */
+  background?: boolean;
+  /**
+   * `true` trims to the bounds of what's drawn (the whole document if
+   * nothing is); a rect in document units crops to it.
+   * @default false
+   */
+  crop?: boolean | { x: number; y: number; w: number; h: number };
+};
+
+export type PaintSaveOptions = PaintExportOptions & {
+  /**
+   * Download name. The extension for `type` is appended when it has none.
+   * @default "sketch"
+   */
+  filename?: string;
+};
+
+const EXTENSIONS: Record<PaintImageType, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
 };
 
+/**
+ * A drawing tool: "brush" | "bucket" | "gradient" | "eraser" | "eyedropper" |
+ * "text" | "select" | "lasso", or a shape.
+ */
+export type PaintTool =
+  | "brush"
+  | "bucket"
+  | "gradient"
+  | "eraser"
+  | "eyedropper"
+  | "text"
+  | "select"
+  | "lasso"
+  | PaintShapeKind;
+
 /**
  * State and actions passed to the `renderControls` render prop.
  * Use this to build fully custom control UIs while the canvas logic stays in Paint.
@@ -32,15 +333,87 @@ export type PaintState = {
   setMarker: (color: string) => void;
   markerWidth: number;
   setMarkerWidth: (width: number) => void;
-  toolSelection: string;
-  setToolSelection: (tool: string) => void;
+  toolSelection: PaintTool;
+  setToolSelection: (tool: PaintTool) => void;
+  /** Id of the brush the brush tool paints with. */
+  brush: string;
+  setBrush: (id: string) => void;
+  /** Built-in brushes plus the `brushes` prop, in picker order. */
+  brushes: Brush[];
+  /** Whether rect / ellipse / polygon shapes are outlined, filled or both. */
+  shapeStyle: PaintShapeStyle;
+  setShapeStyle: (style: PaintShapeStyle) => void;
+  /** Number of sides drawn by the polygon tool (3 or more). */
+  polygonSides: number;
+  setPolygonSides: (sides: number) => void;
+  /** Font settings for the text tool; applied live to an open text box. */
+  textOptions: PaintTextOptions;
+  setTextOptions: (patch: Partial<PaintTextOptions>) => void;
   customColor: string;
   setCustomColor: (color: string) => void;
+  /** Colours drawn with lately, newest first. */
+  recentColors: string[];
+  /** The other peers on a shared board (`collab`), with their cursors. */
+  peers: PaintRemotePeer[];
+  /** The key bound to `command`, spelled for a tooltip, e.g. "Ctrl+S". */
+  shortcutFor: (command: PaintCommand) => string | undefined;
+  /** Radius in document units the eyedropper averages over; 0 is one pixel. */
+  eyedropperRadius: number;
+  setEyedropperRadius: (radius: number) => void;
   fillTolerance: number;
   setFillTolerance: (v: number) => void;
+  /** Bucket settings besides colour and tolerance. */
+  fillOptions: PaintFillOptions;
+  setFillOptions: (patch: Partial<PaintFillOptions>) => void;
+  /** Gradient tool settings: kind, colour stops and clipping. */
+  gradientOptions: PaintGradientOptions;
+  setGradientOptions: (patch: Partial<PaintGradientOptions>) => void;
+  /** Mirrored drawing for the brush and eraser. */
+  symmetry: PaintSymmetry;
+  setSymmetry: (patch: Partial<PaintSymmetry>) => void;
+  /** The overlay grid, ruler guides and snapping. */
+  grid: PaintGrid;
+  setGrid: (patch: Partial<PaintGrid>) => void;
   colors: string[];
   clearCanvas: () => void;
-  saveImage: () => void;
+  saveImage: (options?: PaintSaveOptions) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  /** Current view scale; 1 = one document unit per CSS pixel. */
+  zoom: number;
+  setZoom: (zoom: number) => void;
+  resetView: () => void;
+  /** Layer stack, bottom → top. */
+  layers: PaintLayer[];
+  /** The layer brush / eraser / bucket / clear act on. */
+  activeLayerId: string;
+  setActiveLayerId: (id: string) => void;
+  /** Adds an empty layer above the active one and selects it. */
+  addLayer: () => void;
+  /** Removes a layer (the last remaining layer can't be removed). */
+  removeLayer: (id: string) => void;
+  /** Copies a layer's pixels and settings into a new layer above it. */
+  duplicateLayer: (id: string) => void;
+  /** Composites a layer into the one below it and removes it. */
+  mergeLayerDown: (id: string) => void;
+  /** Moves a layer to `index` in the bottom → top stack. */
+  moveLayer: (id: string, index: number) => void;
+  /** Renames a layer or changes its visibility, opacity or blend mode. */
+  updateLayer: (id: string, patch: Partial<Omit<PaintLayer, "id">>) => void;
+  /** A selection (or pasted image) is floating above the active layer. */
+  hasSelection: boolean;
+  /** Drops the floating selection onto its layer where it now sits. */
+  commitSelection: () => void;
+  /** Puts lifted pixels back where they came from (discards a paste). */
+  cancelSelection: () => void;
+  /** Erases the selected pixels. */
+  deleteSelection: () => void;
+  /** Writes the floating selection to the system clipboard as a PNG. */
+  copySelection: () => Promise<void>;
+  /** Copies the floating selection, then deletes it. */
+  cutSelection: () => Promise<void>;
 };
 
 /** Override class names for individual slots in the built-in control UI. */
@@ -52,10 +425,22 @@ export type PaintClassNames = {
   colors?: string;
   clr?: string;
   customClr?: string;
+  /** The strip of recently used colours, after the palette. */
+  recentColors?: string;
   /** Applied to the brush tool button. */
   brush?: string;
   bucket?: string;
+  gradient?: string;
   eraser?: string;
+  eyedropper?: string;
+  /** Applied to each shape tool button (line, rect, ellipse, polygon, arrow). */
+  shape?: string;
+  /** Applied to the text tool button. */
+  text?: string;
+  /** Applied to the rectangular and lasso selection tool buttons. */
+  selection?: string;
+  /** The inline text box opened by the text tool. */
+  textBox?: string;
   bottomControl?: string;
   /** Applied to both action buttons. */
   btn?: string;
@@ -63,13 +448,106 @@ export type PaintClassNames = {
   btnClear?: string;
   /** Applied to the save button (in addition to `btn`). */
   btnSave?: string;
+  /** Applied to the undo button (in addition to `btn`). */
+  btnUndo?: string;
+  /** Applied to the redo button (in addition to `btn`). */
+  btnRedo?: string;
+  /** The layers panel. */
+  layers?: string;
+  /** Each remote peer's cursor on a shared board. */
+  remoteCursor?: string;
+  /** Each of the rulers along the stage's top and left edges. */
+  ruler?: string;
 };
 
 export type PaintProps = {
   /** Show the built-in controls bar. Ignored when `renderControls` is provided. */
   controls?: boolean;
+  /**
+   * Document width in CSS pixels, independent of the window. Defaults to the
+   * window width (and follows it on resize).
+   */
+  width?: number;
+  /**
+   * Document height in CSS pixels, independent of the window. Defaults to the
+   * window height (and follows it on resize).
+   */
+  height?: number;
+  /**
+   * Show the built-in layers panel (add / duplicate / merge / delete, drag to
+   * reorder, visibility, opacity and blend mode). Ignored when
+   * `renderControls` is provided — layer state is in `PaintState` instead.
+   * @default false
+   */
+  layersPanel?: boolean;
+  /**
+   * Show the drawing without letting anyone edit it, e.g. in a gallery: no
+   * pointer input (drawing, panning, guides), wheel zoom, shortcuts or
+   * pasting, and no built-in controls or layers panel. `renderControls` is
+   * still rendered, and the imperative handle still works — `loadDocument`
+   * shows a saved drawing.
+   * @default false
+   */
+  readOnly?: boolean;
   /** Preset colour swatches shown in the built-in palette. */
   colors?: string[];
+  /**
+   * How many colours drawn with lately the palette remembers, newest first.
+   * 0 turns the recent-colours strip off.
+   * @default 8
+   */
+  recentColorsLimit?: number;
+  /**
+   * `localStorage` key to keep the recent colours under, so they survive a
+   * reload. Without it they last as long as the component.
+   */
+  recentColorsKey?: string;
+  /**
+   * Initial radius in document units the eyedropper averages the colours
+   * within. 0 picks up a single pixel.
+   * @default 0
+   */
+  eyedropperRadius?: number;
+  /** The active tool, when the parent controls it. Pair with `onToolChange`. */
+  tool?: PaintTool;
+  /** Starting tool when `tool` isn't controlled. @default "brush" */
+  defaultTool?: PaintTool;
+  /** Called whenever Paint changes the tool (toolbar, shortcuts, paste). */
+  onToolChange?: (tool: PaintTool) => void;
+  /** The drawing colour, when the parent controls it. */
+  color?: string;
+  /** Starting colour when `color` isn't controlled. @default colors[0] */
+  defaultColor?: string;
+  onColorChange?: (color: string) => void;
+  /** Brush / eraser / shape width in CSS px, when the parent controls it. */
+  brushSize?: number;
+  /** Starting width when `brushSize` isn't controlled. @default 5 */
+  defaultBrushSize?: number;
+  onBrushSizeChange?: (size: number) => void;
+  /**
+   * Extra brushes for the brush tool, after the built-ins (round,
+   * calligraphy, airbrush, marker, textured). A brush with a built-in's id
+   * replaces it.
+   */
+  brushes?: Brush[];
+  /**
+   * Image shown under the layers — a URL, Blob or `ImageBitmap` — so drawing
+   * starts from a screenshot or photo. Bucket fills are bounded by its pixels.
+   * Changing it replaces the background; `loadImage()` does the same
+   * imperatively.
+   */
+  backgroundImage?: PaintImageSource;
+  /**
+   * How the background image is placed: `"fit"` scales it to fit inside the
+   * canvas, `"fill"` scales it to cover the canvas, `"center"` keeps its size.
+   * @default "fit"
+   */
+  backgroundFit?: PaintBackgroundFit;
+  /**
+   * Called when `backgroundImage` can't be loaded, e.g. a URL that 404s or
+   * isn't an image. Logged to the console when unset.
+   */
+  onBackgroundError?: (error: unknown) => void;
   /**
    * Initial fill tolerance for the bucket tool. Raw per-channel delta on the
    * 0–255 RGBA scale (0 = exact match, 128 = ~50% — the built-in slider ceiling).
@@ -77,6 +555,30 @@ export type PaintProps = {
    * @default 80
    */
   fillTolerance?: number;
+  /**
+   * Initial bucket settings: contiguous or global, sampling the active layer
+   * or all of them, gap closing, edge anti-aliasing, perceptual colour
+   * distance and pattern / gradient paint. Unset keys use the defaults.
+   */
+  fillOptions?: Partial<PaintFillOptions>;
+  /**
+   * Initial gradient tool settings: linear, radial or conic, its colour
+   * stops, and whether it's clipped to the region a bucket fill would take.
+   * Unset keys use the defaults.
+   */
+  gradientOptions?: Partial<PaintGradientOptions>;
+  /**
+   * Initial symmetry: brush and eraser strokes mirrored left–right or
+   * top–bottom, or repeated round a centre, with guides over the canvas.
+   * Unset keys use the defaults (off).
+   */
+  symmetry?: Partial<PaintSymmetry>;
+  /**
+   * Initial grid and guides: a square or isometric grid over the canvas,
+   * ruler guides, and snapping shape and line ends to both. Only ever shown
+   * on screen, never saved. Unset keys use the defaults (all hidden).
+   */
+  grid?: Partial<PaintGrid>;
   /**
    * Vary stroke width with pen pressure. When enabled and a pen/stylus (e.g.
    * Apple Pencil) is used, width is mapped between `markerWidth * minWidthRatio`
@@ -93,6 +595,96 @@ export type PaintProps = {
    * @default 0.15
    */
   minWidthRatio?: number;
+  /**
+   * How pen pressure maps to width. A number is an exponent applied to the
+   * 0–1 pressure: above 1 needs a firmer press to reach full width, below 1
+   * gets there sooner. A function receives the pressure and returns 0–1.
+   * @default 1
+   */
+  pressureCurve?: number | ((pressure: number) => number);
+  /**
+   * Erase with the pen's eraser end, or while its barrel button is held,
+   * whatever tool is selected.
+   * @default true
+   */
+  penEraser?: boolean;
+  /**
+   * Steadies brush and eraser strokes for shaky hands or input, from 0 (off)
+   * to 1 (heavy). Smoothing follows slow movement loosely and quick movement
+   * closely, so it costs little lag on fast strokes.
+   * @default 0
+   */
+  smoothing?: number;
+  /**
+   * Draw the live preview of built-in brush strokes in a worker, on an
+   * `OffscreenCanvas`, where the browser supports it. Keeps long strokes
+   * responsive on large, high-density canvases. The worker is a separate
+   * module, so your bundler must support `new Worker(new URL(…,
+   * import.meta.url))` (Vite, webpack 5, Parcel and esbuild-based tools do).
+   * @default false
+   */
+  offscreen?: boolean;
+  /**
+   * Keyboard shortcuts, over the defaults: B brush, E eraser, G bucket,
+   * Shift+G gradient, I eyedropper, T text, M select, L lasso, U rectangle,
+   * [ and ] size, 1–9 palette colours, Ctrl/Cmd+S save. Map a key to null to
+   * unbind it, or pass false to turn shortcuts off. Undo, redo and the
+   * selection keys aren't part of it.
+   */
+  keymap?: PaintKeymap | false;
+  /**
+   * Maximum number of undo steps kept. Each step stores only the pixels of the
+   * rectangle it changed, and the oldest steps are also dropped once the
+   * history exceeds ~128 MB, so large canvases stay bounded either way.
+   * @default 50
+   */
+  historyLimit?: number;
+  /** Defaults for `saveImage()`, including the built-in Save button. */
+  saveOptions?: PaintSaveOptions;
+  /**
+   * Receives the exported file instead of it being downloaded, e.g. to
+   * upload it. A returned promise that rejects goes to `onSaveError`.
+   */
+  onSave?: (blob: Blob, filename: string) => void | Promise<void>;
+  /**
+   * Called when `saveImage()` fails: the image couldn't be exported, or
+   * `onSave` threw. Logged to the console when unset.
+   */
+  onSaveError?: (error: unknown) => void;
+  /**
+   * Called with an `exportDocument()` snapshot after the drawing changes —
+   * committed ops, undo / redo, layer edits, a new background or a loaded
+   * document. Changes made together are reported once.
+   */
+  onChange?: (doc: PaintDocument) => void;
+  /**
+   * Keeps the drawing in IndexedDB under this key: saved shortly after each
+   * change and restored when the component mounts, so a reload doesn't lose
+   * it. Each Paint on a page needs its own key.
+   */
+  persistKey?: string;
+  /** Called with the document restored from `persistKey`, once it's drawn. */
+  onRestore?: (doc: PaintDocument) => void;
+  /**
+   * Called when saving or restoring fails, e.g. with a `QuotaExceededError`
+   * when storage is full. Logged to the console when unset; never thrown.
+   */
+  onPersistError?: (error: unknown) => void;
+  /** Called with each brush or eraser stroke once it's committed. */
+  onStrokeEnd?: (stroke: PaintStroke) => void;
+  /**
+   * Shares the board with other peers: ops committed here go out through the
+   * adapter and theirs are drawn as they arrive, in an order every peer
+   * agrees on, and everyone's cursor is shown. Layer stack changes, the
+   * background image and `loadDocument()` are shared too. See
+   * `createBroadcastChannelAdapter` and `createWebSocketAdapter`.
+   */
+  collab?: PaintCollabAdapter;
+  /**
+   * How this peer appears to the others. A random id, "Guest" and a colour
+   * from the id when unset.
+   */
+  collabPeer?: Partial<PaintPeer>;
   /**
    * Replace the built-in controls entirely with your own UI.
    * Receives all canvas state and action callbacks.
@@ -102,308 +694,148 @@ export type PaintProps = {
   classNames?: PaintClassNames;
 };
 
-// ─── Inline SVG icons (no external dependency) ───────────────────────────────
-
-function IconEraser({ size = 22 }: { size?: number }) {
-  return (
-    <svg
-      xmlns="http://www.w3.org/2000/svg"
-      width={size}
-      height={size}
-      viewBox="0 0 24 24"
-      fill="none"
-      stroke="currentColor"
-      strokeWidth="2"
-      strokeLinecap="round"
-      strokeLinejoin="round"
-    >
-      <path d="M19 20H7l-4-4 9.5-9.5a2 2 0 0 1 2.8 0l3.2 3.2a2 2 0 0 1 0 2.8L10 20" />
-      <path d="M6.5 12.5l5 5" />
-    </svg>
-  );
-}
-
-function IconPalette({
-  size = 22,
-  color = "currentColor",
-}: {
-  size?: number;
-  color?: string;
-}) {
-  return (
-    <svg
-      xmlns="http://www.w3.org/2000/svg"
-      width={size}
-      height={size}
-      viewBox="0 0 24 24"
-      fill="none"
-      stroke={color}
-      strokeWidth="2"
-      strokeLinecap="round"
-      strokeLinejoin="round"
-    >
-      <path d="M12 21a9 9 0 1 1 0-18c4.97 0 9 3.582 9 8 0 1.06-.474 2.078-1.318 2.828-.844.75-1.989 1.172-3.182 1.172H15a2 2 0 0 0-1 3.75A1.3 1.3 0 0 1 12 21" />
-      <circle cx="8.5" cy="10.5" r="1" fill={color} />
-      <circle cx="12.5" cy="7.5" r="1" fill={color} />
-      <circle cx="16.5" cy="10.5" r="1" fill={color} />
-    </svg>
-  );
-}
-
-function IconBrush({ size = 22 }: { size?: number }) {
-  return (
-    <svg
-      xmlns="http://www.w3.org/2000/svg"
-      width={size}
-      height={size}
-      viewBox="0 0 24 24"
-      fill="none"
-      stroke="currentColor"
-      strokeWidth="2"
-      strokeLinecap="round"
-      strokeLinejoin="round"
-    >
-      <path stroke="none" d="M0 0h24v24H0z" fill="none" />
-      <path d="M3 21v-4a4 4 0 1 1 4 4h-4" />
-      <path d="M21 3a16 16 0 0 0 -12.8 10.2" />
-      <path d="M21 3a16 16 0 0 1 -10.2 12.8" />
-      <path d="M10.6 9a9 9 0 0 1 4.4 4.4" />
-    </svg>
-  );
-}
-
-function IconBucket({ size = 22 }: { size?: number }) {
-  return (
-    <svg
-      xmlns="http://www.w3.org/2000/svg"
-      width={size}
-      height={size}
-      viewBox="0 0 24 24"
-      fill="none"
-      stroke="currentColor"
-      strokeWidth="2"
-      strokeLinecap="round"
-      strokeLinejoin="round"
-    >
-      <path stroke="none" d="M0 0h24v24H0z" fill="none" />
-      <path d="M5 16l1.465 1.638a2 2 0 1 1 -3.015 .099l1.55 -1.737" />
-      <path d="M13.737 9.737c2.299 -2.3 3.23 -5.095 2.081 -6.245c-1.15 -1.15 -3.945 -.217 -6.244 2.082c-2.3 2.299 -3.231 5.095 -2.082 6.244c1.15 1.15 3.946 .218 6.245 -2.081" />
-      <path d="M7.492 11.818c.362 .362 .768 .676 1.208 .934l6.895 4.047c1.078 .557 2.255 -.075 3.692 -1.512c1.437 -1.437 2.07 -2.614 1.512 -3.692c-.372 -.718 -1.72 -3.017 -4.047 -6.895a6.015 6.015 0 0 0 -.934 -1.208" />
-    </svg>
-  );
-}
-
-// ─── Helpers ─────────────────────────────────────────────────────────────────
+// Ms after the last change before the drawing is saved to `persistKey`
+const PERSIST_DELAY = 500;
 
-/**
- * Draws a smooth bezier path through accumulated points onto the given context.
- * Falls back to a filled dot for fewer than 3 points.
- */
-function drawBezierPath(
-  ctx: CanvasRenderingContext2D,
-  pts: Array<{ x: number; y: number }>,
-) {
-  if (pts.length < 3) {
-    const b = pts[0];
-    ctx.beginPath();
-    ctx.arc(b.x, b.y, ctx.lineWidth / 2, 0, Math.PI * 2, true);
-    ctx.fill();
-    ctx.closePath();
-    return;
-  }
-
-  ctx.beginPath();
-  ctx.moveTo(pts[0].x, pts[0].y);
-
-  let i;
-  for (i = 1; i < pts.length - 2; i++) {
-    const c = (pts[i].x + pts[i + 1].x) / 2;
-    const d = (pts[i].y + pts[i + 1].y) / 2;
-    ctx.quadraticCurveTo(pts[i].x, pts[i].y, c, d);
-  }
-  ctx.quadraticCurveTo(pts[i].x, pts[i].y, pts[i + 1].x, pts[i + 1].y);
-  ctx.stroke();
-}
+// How near, in screen pixels, a shape's end has to come to a guide to snap
+const GUIDE_SNAP_REACH = 8;
 
-/**
- * Draws a variable-width stroke where each point carries its own width `w`
- * (from pointer pressure). Because a single canvas path can only have one
- * `lineWidth`, each midpoint-smoothed segment is stroked individually with the
- * average width of its endpoints; round caps/joins keep the segments continuous.
- * Falls back to a filled dot for fewer than 3 points.
- */
-function drawVariablePath(
-  ctx: CanvasRenderingContext2D,
-  pts: Array<{ x: number; y: number; w: number }>,
-) {
-  if (pts.length < 3) {
-    const b = pts[0];
-    ctx.beginPath();
-    ctx.arc(b.x, b.y, b.w / 2, 0, Math.PI * 2, true);
-    ctx.fill();
-    ctx.closePath();
-    return;
-  }
-
-  let i;
-  for (i = 1; i < pts.length - 2; i++) {
-    const cx0 = (pts[i].x + pts[i + 1].x) / 2;
-    const cy0 = (pts[i].y + pts[i + 1].y) / 2;
-    const px = (pts[i - 1].x + pts[i].x) / 2;
-    const py = (pts[i - 1].y + pts[i].y) / 2;
-    ctx.beginPath();
-    ctx.lineWidth = (pts[i].w + pts[i + 1].w) / 2;
-    ctx.moveTo(px, py);
-    ctx.quadraticCurveTo(pts[i].x, pts[i].y, cx0, cy0);
-    ctx.stroke();
-  }
-  // Final segment to the last point
-  ctx.beginPath();
-  ctx.lineWidth = (pts[i].w + pts[i + 1].w) / 2;
-  ctx.moveTo((pts[i - 1].x + pts[i].x) / 2, (pts[i - 1].y + pts[i].y) / 2);
-  ctx.quadraticCurveTo(pts[i].x, pts[i].y, pts[i + 1].x, pts[i + 1].y);
-  ctx.stroke();
-}
+const FONT_FAMILIES = [
+  "sans-serif",
+  "serif",
+  "monospace",
+  "cursive",
+  "system-ui",
+];
 
-/**
- * Scanline flood fill on a canvas context.
- *
- * Snapshots the pixel data, fills all connected pixels whose colour is within
- * `tolerance` of the target (the pixel at startX/startY), then writes back.
- * The scanline approach processes full horizontal runs at once, making it
- * significantly faster than naive BFS for large fills.
- *
- * A `visited` bitfield prevents infinite loops when `tolerance > 0` causes
- * newly-filled pixels to still match the target colour.
- */
-function floodFill(
-  ctx: CanvasRenderingContext2D,
-  startX: number,
-  startY: number,
-  fillColor: string,
-  tolerance: number,
-) {
-  const canvas = ctx.canvas;
-  const w = canvas.width;
-  const h = canvas.height;
-
-  const x0 = Math.round(startX);
-  const y0 = Math.round(startY);
-  if (x0 < 0 || x0 >= w || y0 < 0 || y0 >= h) return;
-
-  const imageData = ctx.getImageData(0, 0, w, h);
-  const data = imageData.data;
-
-  // Parse fill colour to RGBA via a tiny offscreen canvas — works with any
-  // valid CSS colour string (hex, rgb, named, etc.)
-  const tiny = document.createElement("canvas");
-  tiny.width = tiny.height = 1;
-  const tc = tiny.getContext("2d")!;
-  tc.fillStyle = fillColor;
-  tc.fillRect(0, 0, 1, 1);
-  const fill = tc.getImageData(0, 0, 1, 1).data;
-  const [fr, fg, fb, fa] = [fill[0], fill[1], fill[2], fill[3]];
-
-  // Target colour at the clicked pixel (using pixel index throughout)
-  const si = y0 * w + x0;
-  const bi = si * 4;
-  const [tr, tg, tb, ta] = [data[bi], data[bi + 1], data[bi + 2], data[bi + 3]];
-
-  // Already the fill colour — nothing to do
-  if (tr === fr && tg === fg && tb === fb && ta === fa) return;
-
-  // matches / setPixel both take a pixel index (not byte offset) for clarity
-  const matches = (pi: number) => {
-    const i = pi * 4;
-    return (
-      Math.abs(data[i] - tr) <= tolerance &&
-      Math.abs(data[i + 1] - tg) <= tolerance &&
-      Math.abs(data[i + 2] - tb) <= tolerance &&
-      Math.abs(data[i + 3] - ta) <= tolerance
-    );
-  };
+// What the built-in bucket menu offers besides a solid fill
+const FILL_PAINTS: Record<string, PaintFillPaint> = {
+  gradient: { type: "gradient", to: "transparent", angle: 90 },
+  dots: { type: "pattern", pattern: "dots", size: 8 },
+  stripes: { type: "pattern", pattern: "stripes", size: 8 },
+  checks: { type: "pattern", pattern: "checks", size: 8 },
+  hatch: { type: "pattern", pattern: "hatch", size: 8 },
+};
 
-  // Track filled pixels so the post-fill boundary pass can find them
-  const filled = new Uint8Array(w * h);
+const fillPaintName = (paint: PaintFillPaint | null) =>
+  !paint ? "solid" : paint.type === "pattern" ? paint.pattern : paint.type;
 
-  const setPixel = (pi: number) => {
-    const i = pi * 4;
-    data[i] = fr;
-    data[i + 1] = fg;
-    data[i + 2] = fb;
-    data[i + 3] = fa;
-    filled[pi] = 1;
-  };
+const SHAPE_ICONS = {
+  line: IconLine,
+  rect: IconRect,
+  ellipse: IconEllipse,
+  polygon: IconPolygon,
+  arrow: IconArrow,
+};
 
-  // One byte per pixel — prevents duplicate stack pushes (needed when
-  // tolerance > 0 means filled pixels can still satisfy `matches`)
-  const visited = new Uint8Array(w * h);
+// Tools whose Alt-click picks up a colour (shapes use Alt to draw from the
+// centre)
+const ALT_PICK_TOOLS: string[] = ["brush", "bucket", "gradient", "text"];
 
-  const stack: Array<[number, number]> = [[x0, y0]];
-  visited[si] = 1;
+const isSelectionTool = (tool: string) => tool === "select" || tool === "lasso";
 
-  while (stack.length > 0) {
-    const [sx, sy] = stack.pop()!;
+// Fills bounded by what every layer shows, so by the stack as it is
+const samplesMerged = (op: PaintOp) =>
+  (op.type === "fill" && op.sample === "merged") ||
+  (op.type === "gradient" && op.clip?.sample === "merged");
 
-    if (!matches(sy * w + sx)) continue;
+// Form fields keep their own shortcuts (text undo, copy / paste, caret keys)
+function isEditableTarget(target: EventTarget | null) {
+  const el = target as HTMLElement | null;
+  return (
+    !!el &&
+    (el.isContentEditable ||
+      el.tagName === "INPUT" ||
+      el.tagName === "TEXTAREA" ||
+      el.tagName === "SELECT")
+  );
+}
 
-    // Scan left to the boundary of the matching region
-    let lx = sx;
-    while (lx > 0 && matches(sy * w + lx - 1)) lx--;
+// The Paint an element belongs to, by the id its stage and controls carry
+function paintInstanceOf(target: EventTarget | null) {
+  if (!(target instanceof Element)) return undefined;
+  return target.closest<HTMLElement>("[data-paint-instance]")?.dataset
+    .paintInstance;
+}
 
-    // Scan right: fill the span and push unvisited neighbours above/below
-    let spanAbove = false;
-    let spanBelow = false;
-    let rx = lx;
+// Brush and eraser hide the cursor behind their size circle
+const toolCursor = (tool: string) =>
+  tool === "brush" || tool === "eraser"
+    ? "none"
+    : tool === "text"
+      ? "text"
+      : "crosshair";
 
-    while (rx < w && matches(sy * w + rx)) {
-      setPixel(sy * w + rx);
+const HANDLE_CURSORS: Record<SelectionHandle, string> = {
+  move: "move",
+  rotate: "grab",
+  nw: "nwse-resize",
+  se: "nwse-resize",
+  ne: "nesw-resize",
+  sw: "nesw-resize",
+};
 
-      if (sy > 0) {
-        const above = (sy - 1) * w + rx;
-        if (!spanAbove && matches(above) && !visited[above]) {
-          visited[above] = 1;
-          stack.push([rx, sy - 1]);
-          spanAbove = true;
-        } else if (spanAbove && !matches(above)) {
-          spanAbove = false;
-        }
-      }
+// A lifted selection or pasted image, shown on tmp_canvas until committed
+type Floating = {
+  ctx: CanvasRenderingContext2D;
+  layer: string;
+  image: HTMLCanvasElement;
+  /** Where the pixels were lifted from; null for a paste. */
+  region: SelectionRegion | null;
+  /** Data URL of a pasted image, stored in its `image` op. */
+  src: string | null;
+  /** Placement when lifted / pasted, to tell if it has been moved. */
+  origin: FloatTransform;
+  transform: FloatTransform;
+  /** The layer's pixels before lifting: the `before` of the eventual diff. */
+  snapshot: ImageData;
+};
 
-      if (sy < h - 1) {
-        const below = (sy + 1) * w + rx;
-        if (!spanBelow && matches(below) && !visited[below]) {
-          visited[below] = 1;
-          stack.push([rx, sy + 1]);
-          spanBelow = true;
-        } else if (spanBelow && !matches(below)) {
-          spanBelow = false;
-        }
-      }
+const SHAPE_TITLES = {
+  line: "Line",
+  rect: "Rectangle",
+  ellipse: "Ellipse",
+  polygon: "Polygon",
+  arrow: "Arrow",
+};
 
-      rx++;
-    }
-  }
+const TOOL_TITLES: Record<PaintTool, string> = {
+  brush: "Brush",
+  bucket: "Fill",
+  gradient: "Gradient",
+  eraser: "Eraser",
+  eyedropper: "Eyedropper",
+  text: "Text",
+  select: "Select",
+  lasso: "Lasso",
+  ...SHAPE_TITLES,
+};
 
-  // Post-fill pass: eliminate the 1-pixel anti-aliased fringe that scanline
-  // fill leaves at stroke edges. Any semi-transparent pixel (alpha < 200)
-  // directly adjacent to a filled pixel is also filled.
-  for (let py = 0; py < h; py++) {
-    for (let px = 0; px < w; px++) {
-      const pi = py * w + px;
-      if (!filled[pi]) continue;
-      if (px > 0 && !filled[pi - 1] && data[(pi - 1) * 4 + 3] < 200)
-        setPixel(pi - 1);
-      if (px < w - 1 && !filled[pi + 1] && data[(pi + 1) * 4 + 3] < 200)
-        setPixel(pi + 1);
-      if (py > 0 && !filled[pi - w] && data[(pi - w) * 4 + 3] < 200)
-        setPixel(pi - w);
-      if (py < h - 1 && !filled[pi + w] && data[(pi + w) * 4 + 3] < 200)
-        setPixel(pi + w);
-    }
-  }
+// The built-in size slider's range, which [ and ] step through
+const BRUSH_SIZE_RANGE = { min: 4, max: 100, step: 2 };
 
-  ctx.putImageData(imageData, 0, 0);
+// Arrow keys, Home and End move focus between a toolbar's `data-roving`
+// items, and the focused one becomes its only tab stop
+function rovingFocus(ev: ReactKeyboardEvent<HTMLElement>) {
+  const items = Array.from(
+    ev.currentTarget.querySelectorAll<HTMLElement>("[data-roving]"),
+  );
+  const i = items.indexOf(document.activeElement as HTMLElement);
+  if (i < 0) return;
+  const to = {
+    ArrowRight: i + 1,
+    ArrowDown: i + 1,
+    ArrowLeft: i - 1,
+    ArrowUp: i - 1,
+    Home: 0,
+    End: items.length - 1,
+  }[ev.key];
+  if (to === undefined) return;
+  const next = (to + items.length) % items.length;
+  ev.preventDefault();
+  items[i].tabIndex = -1;
+  items[next].tabIndex = 0;
+  items[next].focus();
 }
 
 // ─── Component ───────────────────────────────────────────────────────────────
@@ -411,253 +843,2842 @@ function floodFill(
 const Paint = forwardRef<PaintHandle, PaintProps>(function Paint(
   {
     controls,
+    width,
+    height,
+    layersPanel = false,
+    readOnly = false,
     colors = PAINT_MOCKDATA,
+    recentColorsLimit = 8,
+    recentColorsKey,
+    eyedropperRadius: eyedropperRadiusProp = 0,
+    tool,
+    defaultTool = "brush",
+    onToolChange,
+    color,
+    defaultColor,
+    onColorChange,
+    brushSize,
+    defaultBrushSize = 5,
+    onBrushSizeChange,
+    brushes = [],
+    backgroundImage,
+    onBackgroundError,
+    backgroundFit = "fit",
     fillTolerance: fillToleranceProp = 80,
+    fillOptions: fillOptionsProp,
+    gradientOptions: gradientOptionsProp,
+    symmetry: symmetryProp,
+    grid: gridProp,
     pressure = true,
     minWidthRatio = 0.15,
+    pressureCurve = 1,
+    penEraser = true,
+    smoothing = 0,
+    offscreen = false,
+    keymap,
+    historyLimit = 50,
+    saveOptions,
+    onSave,
+    onSaveError,
+    onChange,
+    persistKey,
+    onRestore,
+    onPersistError,
+    onStrokeEnd,
+    collab,
+    collabPeer,
     renderControls,
     classNames = {},
   },
   ref,
 ) {
-  const [marker, setMarker] = useState(colors[0]);
-  const [markerWidth, setMarkerWidth] = useState(5);
-  // "brush" | "bucket" | "eraser" — tool is independent of colour choice
-  const [toolSelection, setToolSelection] = useState("brush");
+  // Colour, width and tool are each either controlled by props or kept here.
+  // Tool is independent of colour choice.
+  const [marker, setMarker] = useControllableState(
+    color,
+    defaultColor ?? colors[0],
+    onColorChange,
+  );
+  const [markerWidth, setMarkerWidth] = useControllableState(
+    brushSize,
+    defaultBrushSize,
+    onBrushSizeChange,
+  );
+  const [toolSelection, setToolSelection] = useControllableState(
+    tool,
+    defaultTool,
+    onToolChange,
+  );
+  const [brushId, setBrush] = useState(roundBrush.id);
+  // This instance's brushes for replaying strokes, ahead of the page's
+  const brushFor = brushLookup(brushes);
+  const brushForRef = useRef(brushFor);
+  brushForRef.current = brushFor;
+  const brushList = [
+    ...PAINT_BRUSHES.filter((b) => !brushes.some((c) => c.id === b.id)),
+    ...brushes,
+  ];
+  const [shapeStyle, setShapeStyle] = useState<PaintShapeStyle>("stroke");
+  const [polygonSides, setPolygonSides] = useState(5);
+  const [textOptions, setTextOptionsState] = useState(DEFAULT_TEXT_OPTIONS);
+  // Anchor of the open text box (text tool). Its content stays in the
+  // uncontrolled <textarea> so typing doesn't re-render or re-bind handlers.
+  const [textBox, setTextBox] = useState<{ x: number; y: number } | null>(
+    null,
+  );
+  const textAreaRef = useRef<HTMLTextAreaElement>(null);
   const [customColor, setCustomColor] = useState("#A020F0");
+  const [recentColors, setRecentColors] = useState<string[]>([]);
+  // Set once a colour is remembered, so what's stored is only replaced by
+  // colours used since it was read
+  const recentChangedRef = useRef(false);
+  const [eyedropperRadius, setEyedropperRadius] = useState(
+    eyedropperRadiusProp,
+  );
   const [fillTolerance, setFillTolerance] = useState(fillToleranceProp);
-  const [context, setContext] = useState<CanvasRenderingContext2D | null>(null);
+  const [fillOptions, setFillOptionsState] = useState<PaintFillOptions>(() => ({
+    ...DEFAULT_FILL_OPTIONS,
+    ...fillOptionsProp,
+  }));
+  const [gradientOptions, setGradientOptionsState] =
+    useState<PaintGradientOptions>(() => ({
+      ...DEFAULT_GRADIENT_OPTIONS,
+      ...gradientOptionsProp,
+    }));
+  const [symmetry, setSymmetryState] = useState<PaintSymmetry>(() => ({
+    ...DEFAULT_SYMMETRY,
+    ...symmetryProp,
+  }));
+  const [grid, setGridState] = useState<PaintGrid>(() => ({
+    ...DEFAULT_GRID,
+    ...gridProp,
+  }));
+  // Stop the built-in stop editor is editing; palette clicks recolour it
+  const [gradientStop, setGradientStop] = useState(0);
   const [tmp_context, setTmpContext] =
     useState<CanvasRenderingContext2D | null>(null);
+  // Layer stack, bottom → top. Each layer is its own on-screen <canvas>; their
+  // contexts live in layerCtxRef keyed by layer id.
+  const [layers, setLayers] = useState<PaintLayer[]>(() => [
+    createLayer("layer-1", "Layer 1"),
+  ]);
+  const [activeLayerId, setActiveLayerId] = useState("layer-1");
+  const activeLayer =
+    layers.find((l) => l.id === activeLayerId) ?? layers[layers.length - 1];
+  const layerCtxRef = useRef(new Map<string, CanvasRenderingContext2D>());
+  // For replaying and making fills that sample every layer
+  const layersRef = useRef(layers);
+  layersRef.current = layers;
+  // Pixels to copy into a duplicated layer once its <canvas> mounts
+  const pendingCopyRef = useRef(new Map<string, HTMLCanvasElement>());
+  // Bumped by loadDocument so every layer gets a fresh <canvas>; the loaded
+  // document waits in pendingDocRef until they've mounted.
+  const [docKey, setDocKey] = useState(0);
+  // Background image under every layer, on its own canvas. Its placement is
+  // fixed when loaded so resizes don't slide it out from under the drawing.
+  const bgCtxRef = useRef<CanvasRenderingContext2D | null>(null);
+  const backgroundRef = useRef<{
+    image: ImageBitmap;
+    fit: PaintBackgroundFit;
+    /** Source URL; data URL made on first export for Blob / bitmap sources */
+    src: string | null;
+    placement: BackgroundPlacement;
+  } | null>(null);
+  // Bumped per background load so a slow decode can't override a newer one
+  const bgRequestRef = useRef(0);
+  const pendingDocRef = useRef<PaintDocument | null>(null);
+  const dragLayerRef = useRef<string | null>(null);
+  // Keyboard shortcuts and pastes are this instance's when focus is inside
+  // it, or nothing else has focus and the pointer is over it
+  const instanceId = useId();
+  const hoverRef = useRef(false);
+
+  // Zoom / pan. `viewRef` mirrors `view` for gesture handlers bound once.
+  const [view, setView] = useState<PaintViewport>({ zoom: 1, x: 0, y: 0 });
+  const viewRef = useRef(view);
+  const stageRef = useRef<HTMLDivElement>(null);
+  // Space held: pointer drags pan instead of drawing
+  const [spaceHeld, setSpaceHeld] = useState(false);
+  const spaceRef = useRef(false);
+  // Drag-to-pan in progress (space / middle button), from the view it started at
+  const panRef = useRef<{
+    pointerId: number;
+    x: number;
+    y: number;
+    from: PaintViewport;
+  } | null>(null);
+  // Touch points on the stage (client px), and the pinch they form once two
+  // are down: their distance and midpoint (stage px) and the starting view
+  const touchesRef = useRef(new Map<number, { x: number; y: number }>());
+  const pinchRef = useRef<{
+    dist: number;
+    mid: { x: number; y: number };
+    from: PaintViewport;
+  } | null>(null);
+
+  // Device pixels per document unit. Canvases are backed at this density so
+  // they stay sharp on HiDPI screens; it's tracked so moving the window to a
+  // screen with a different density re-renders at the new one. The ref is for
+  // handlers bound once.
+  const [pixelRatio, setPixelRatio] = useState(() =>
+    typeof window === "undefined" ? 1 : window.devicePixelRatio || 1,
+  );
+  const pixelRatioRef = useRef(pixelRatio);
+  pixelRatioRef.current = pixelRatio;
 
-  const cursorRef = useRef({ x: 0, y: 0, w: markerWidth });
-  const canvas_ref = useRef<HTMLCanvasElement>(null);
   const tmp_canvas_ref = useRef<HTMLCanvasElement>(null);
   const customColorInputRef = useRef<HTMLInputElement>(null);
-  const pptsRef = useRef<Array<{ x: number; y: number; w: number }>>([]);
+  const pptsRef = useRef<PaintPoint[]>([]);
+  // When each of them was sampled (event time stamps), for recordings
+  const pointTimesRef = useRef<number[]>([]);
+  // Steadies the current stroke's points when `smoothing` is on
+  const smootherRef = useRef<StrokeSmoother | null>(null);
+  // Draws the current brush stroke onto tmp_canvas a frame at a time
+  const previewRef = useRef<StrokePreview | null>(null);
+  // Points of the current eraser stroke already erased from the layer
+  const erasedRef = useRef(0);
+  // With `offscreen`: the preview worker, and whether it's drawing the
+  // current stroke (points sent so far) instead of tmp_canvas
+  const workerRef = useRef<{
+    worker: Worker;
+    canvas: HTMLCanvasElement;
+  } | null>(null);
+  const workerSentRef = useRef<number | null>(null);
   // A stroke is in progress (pointer captured). Replaces the old add/remove of
   // the move listener — the persistent pointermove handler checks this.
   const drawingRef = useRef(false);
   // Whether the current stroke varies width with pressure (pen + `pressure`).
   const strokeVariableRef = useRef(false);
+  // The current stroke is the pen's eraser end or barrel button, not the tool
+  const penEraserRef = useRef(false);
   // Captured once on eraser mousedown; restored before each paint frame so
   // the eraser stroke is drawn directly on ctx with destination-out live.
   const eraserSnapshotRef = useRef<ImageData | null>(null);
+  // Where the current shape drag started (shape tools only)
+  const shapeStartRef = useRef<{ x: number; y: number } | null>(null);
+  // Where the current gradient drag started, and the pixels it's clipped to
+  // (as an alpha mask in canvas pixels) when clipping is on
+  const gradientDragRef = useRef<{
+    x: number;
+    y: number;
+    clip: HTMLCanvasElement | OffscreenCanvas | null;
+  } | null>(null);
+  // Floating selection; `hasSelection` mirrors it for rendering
+  const floatingRef = useRef<Floating | null>(null);
+  const [hasSelection, setHasSelection] = useState(false);
+  // Handle being dragged on the floating selection, with the drag's start
+  const selectionDragRef = useRef<{
+    handle: SelectionHandle;
+    x: number;
+    y: number;
+    from: FloatTransform;
+  } | null>(null);
+  // Outline of a selection being dragged out (select / lasso tools)
+  const marqueeRef = useRef<Array<{ x: number; y: number }>>([]);
   // Sized circle that follows the cursor for brush/eraser — updated via direct
   // DOM manipulation so mousemove doesn't trigger React re-renders.
   const cursorCircleRef = useRef<HTMLDivElement>(null);
+  // Undo/redo stack. Lives in a ref so pointer handlers can push without
+  // re-binding; `historyState` mirrors its flags for rendering.
+  const historyRef = useRef<PaintHistory | null>(null);
+  // Vector record of everything drawn, kept in step with undo/redo
+  const opsRef = useRef<PaintOp[]>([]);
+  // The recording under way, and the timing of the strokes made during it
+  const recorderRef = useRef<Recorder | null>(null);
+  const strokeTimesRef = useRef(new WeakMap<PaintOp, number[]>());
+  if (!historyRef.current) historyRef.current = new PaintHistory(historyLimit);
+  historyRef.current.limit = historyLimit;
+  const [historyState, setHistoryState] = useState({
+    canUndo: false,
+    canRedo: false,
+  });
+  // Bumped on every document change; `onChange` fires once per bump (or
+  // layer stack change) after render. Callbacks are refs for the same reason
+  // as everything else bound once.
+  const [revision, setRevision] = useState(0);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const onStrokeEndRef = useRef(onStrokeEnd);
+  onStrokeEndRef.current = onStrokeEnd;
+  // Often an inline function, which mustn't rebind the pointer handlers
+  const pressureCurveRef = useRef(pressureCurve);
+  pressureCurveRef.current = pressureCurve;
+
+  function syncHistory() {
+    const history = historyRef.current!;
+    setHistoryState({ canUndo: history.canUndo, canRedo: history.canRedo });
+    setRevision((r) => r + 1);
+  }
+
+  // Appends a committed op to the document and its pixel diff to history
+  function record(
+    ctx: CanvasRenderingContext2D,
+    rect: PixelRect,
+    before: ImageData,
+    op: PaintOp,
+    cleared = false,
+  ) {
+    opsRef.current.push(op);
+    historyRef.current!.push(ctx, rect, before, op, cleared);
+    shareOps([op]);
+    syncHistory();
+    if ("color" in op && !(op.type === "stroke" && op.tool === "eraser")) {
+      rememberColor(op.color);
+    }
+  }
+
+  // Document size in CSS pixels: the `width` / `height` props, else the window
+  function docSize() {
+    return {
+      width: width ?? window.innerWidth,
+      height: height ?? window.innerHeight,
+    };
+  }
 
+  // Backs `canvas` at the document size × pixel ratio and displays it at the
+  // document size. Its context draws in document units; pixel-level work
+  // (image data, canvas-to-canvas copies) uses canvas pixels.
   function setupCanvas(canvas: HTMLCanvasElement) {
-    const dpr = window.devicePixelRatio || 1;
-    const rect = { width: window.innerWidth, height: window.innerHeight };
-    canvas.width = rect.width * dpr;
-    canvas.height = rect.height * dpr;
+    const dpr = pixelRatioRef.current;
+    const { width, height } = docSize();
+    canvas.width = Math.round(width * dpr);
+    canvas.height = Math.round(height * dpr);
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
     const ctx = canvas.getContext("2d")!;
-    ctx.scale(dpr, dpr);
-    canvas.width = rect.width;
-    canvas.height = rect.height;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
     return ctx;
   }
 
-  function clearCanvas() {
-    if (!context || !canvas_ref.current) return;
-    context.clearRect(
-      0,
-      0,
-      canvas_ref.current.width,
-      canvas_ref.current.height,
+  // Pixel rect covered by a document-space box, padded for anti-aliasing
+  function boxRect(
+    ctx: Ctx2D,
+    box: { x: number; y: number; w: number; h: number },
+  ) {
+    return rectFromPoints(
+      [
+        { x: box.x, y: box.y },
+        { x: box.x + box.w, y: box.y + box.h },
+      ],
+      1,
+      ctx.canvas.width,
+      ctx.canvas.height,
+      pixelRatioRef.current,
     );
   }
 
-  function saveImage() {
-    if (!canvas_ref.current) return;
-    const data = canvas_ref.current.toDataURL("image/png");
-    const a = document.createElement("a");
-    a.href = data;
-    a.download = "sketch.png";
-    a.click();
-    a.remove();
+  // Re-renders `ops` onto the (blank) layer canvases at the current pixel
+  // ratio. Layers that only survive as merge sources are rebuilt on scratch
+  // canvases.
+  function replayOps(ops: PaintOp[]) {
+    const tmp_canvas = tmp_canvas_ref.current;
+    if (!tmp_canvas) return;
+    const scratch = new Map<string, Ctx2D>();
+    const ctxFor = (id: string): Ctx2D => {
+      let ctx: Ctx2D | undefined =
+        layerCtxRef.current.get(id) ?? scratch.get(id);
+      if (!ctx) {
+        ctx = get2d(createCanvas(tmp_canvas.width, tmp_canvas.height));
+        scratch.set(id, ctx);
+      }
+      return ctx;
+    };
+    renderOps(
+      ctxFor,
+      ops,
+      pixelRatioRef.current,
+      fillBackdrop(),
+      layersRef.current,
+      brushForRef.current,
+    );
+  }
+
+  // Ref callback for layer canvases. Inline callbacks are re-invoked on every
+  // render, so an already-attached canvas is left alone.
+  function attachLayerCanvas(id: string, canvas: HTMLCanvasElement | null) {
+    if (!canvas || layerCtxRef.current.get(id)?.canvas === canvas) return;
+    const ctx = setupCanvas(canvas);
+    layerCtxRef.current.set(id, ctx);
+    const copyFrom = pendingCopyRef.current.get(id);
+    if (copyFrom) {
+      compositeLayer(ctx, copyFrom, 1, "source-over");
+      pendingCopyRef.current.delete(id);
+    }
+  }
+
+  // ─── Keyboard focus ──────────────────────────────────────────────────────────
+
+  function ownsEvent(ev: Event) {
+    const owner = paintInstanceOf(ev.target);
+    return owner === undefined ? hoverRef.current : owner === instanceId;
+  }
+
+  // Where the pointer is, for keys pressed with nothing focused
+  useEffect(() => {
+    const onPointerOver = (ev: PointerEvent) => {
+      hoverRef.current = paintInstanceOf(ev.target) === instanceId;
+    };
+    // Leaving the window: no element to go to
+    const onPointerOut = (ev: PointerEvent) => {
+      if (!ev.relatedTarget) hoverRef.current = false;
+    };
+    document.addEventListener("pointerover", onPointerOver);
+    document.addEventListener("pointerout", onPointerOut);
+    return () => {
+      document.removeEventListener("pointerover", onPointerOver);
+      document.removeEventListener("pointerout", onPointerOut);
+    };
+  }, [instanceId]);
+
+  // ─── Viewport ────────────────────────────────────────────────────────────────
+
+  function setViewport(next: PaintViewport) {
+    viewRef.current = next;
+    setView(next);
   }
 
-  useImperativeHandle(ref, () => ({ clearCanvas, saveImage }));
+  function setZoom(zoom: number) {
+    const stage = stageRef.current;
+    if (!stage) return;
+    setViewport(
+      zoomAt(
+        viewRef.current,
+        zoom,
+        stage.clientWidth / 2,
+        stage.clientHeight / 2,
+      ),
+    );
+  }
+
+  function resetView() {
+    const stage = stageRef.current;
+    if (!stage) return;
+    const { width, height } = docSize();
+    setViewport(
+      fitViewport(width, height, stage.clientWidth, stage.clientHeight),
+    );
+  }
+
+  useEffect(resetView, [width, height]);
+
+  // Wheel pans; Ctrl/Cmd+wheel (and trackpad pinch, which arrives as
+  // Ctrl+wheel) zooms about the pointer
+  useEffect(() => {
+    const stage = stageRef.current;
+    if (!stage || readOnly) return;
+    const onWheel = (ev: WheelEvent) => {
+      ev.preventDefault();
+      const view = viewRef.current;
+      const unit = ev.deltaMode === WheelEvent.DOM_DELTA_LINE ? 16 : 1;
+      if (ev.ctrlKey || ev.metaKey) {
+        const r = stage.getBoundingClientRect();
+        setViewport(
+          zoomAt(
+            view,
+            view.zoom * Math.exp(-ev.deltaY * unit * 0.01),
+            ev.clientX - r.left,
+            ev.clientY - r.top,
+          ),
+        );
+      } else {
+        setViewport({
+          ...view,
+          x: view.x - ev.deltaX * unit,
+          y: view.y - ev.deltaY * unit,
+        });
+      }
+    };
+    stage.addEventListener("wheel", onWheel, { passive: false });
+    return () => stage.removeEventListener("wheel", onWheel);
+  }, [readOnly]);
 
+  // Holding Space turns pointer drags into pans
   useEffect(() => {
-    if (!canvas_ref.current || !tmp_canvas_ref.current) return;
+    if (readOnly) return;
+    const setSpace = (held: boolean) => {
+      spaceRef.current = held;
+      setSpaceHeld(held);
+    };
+    const onKeyDown = (ev: KeyboardEvent) => {
+      if (ev.code !== "Space" || isEditableTarget(ev.target)) return;
+      if (!ownsEvent(ev)) return;
+      ev.preventDefault();
+      if (!ev.repeat) setSpace(true);
+    };
+    const onKeyUp = (ev: KeyboardEvent) => {
+      if (ev.code === "Space" && spaceRef.current) setSpace(false);
+    };
+    const onBlur = () => setSpace(false);
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", onBlur);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", onBlur);
+    };
+  }, [readOnly]);
 
-    const canvas = canvas_ref.current;
-    const tmp_canvas = tmp_canvas_ref.current;
+  // A resolution query only matches the current density, so it fires once the
+  // window moves to a different screen (or the browser zoom changes)
+  useEffect(() => {
+    const mq = window.matchMedia(`(resolution: ${pixelRatio}dppx)`);
+    const update = () => setPixelRatio(window.devicePixelRatio || 1);
+    mq.addEventListener("change", update);
+    return () => mq.removeEventListener("change", update);
+  }, [pixelRatio]);
 
-    let ctx: CanvasRenderingContext2D | null = null;
-    let tmp_ctx: CanvasRenderingContext2D | null = null;
+  // ─── Background ──────────────────────────────────────────────────────────────
 
-    if (tmp_context !== null) {
-      ctx = context;
-      tmp_ctx = tmp_context;
+  function attachBackgroundCanvas(canvas: HTMLCanvasElement | null) {
+    if (!canvas || bgCtxRef.current?.canvas === canvas) return;
+    bgCtxRef.current = setupCanvas(canvas);
+    paintBackground();
+  }
+
+  function paintBackground() {
+    const ctx = bgCtxRef.current;
+    const bg = backgroundRef.current;
+    if (!ctx) return;
+    if (bg) {
+      drawBackground(ctx, bg.image, bg.placement, pixelRatioRef.current);
     } else {
-      ctx = setupCanvas(canvas);
-      setContext(ctx);
-      tmp_ctx = setupCanvas(tmp_canvas);
-      setTmpContext(tmp_ctx);
-      tmp_ctx.lineJoin = "round";
-      tmp_ctx.lineCap = "round";
+      ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
     }
+  }
 
-    if (tmp_ctx) {
-      tmp_ctx.lineWidth = markerWidth;
-      tmp_ctx.strokeStyle = marker;
-      tmp_ctx.fillStyle = marker;
+  // Places `source` on a `width` × `height` canvas (the live one, or the one a
+  // loaded document was drawn on)
+  async function setBackground(
+    source: PaintImageSource | null,
+    fit: PaintBackgroundFit,
+    width: number,
+    height: number,
+  ) {
+    const request = ++bgRequestRef.current;
+    const image = source === null ? null : await decodeImage(source);
+    if (request !== bgRequestRef.current) return;
+    placeBackground(
+      image,
+      fit,
+      typeof source === "string" ? source : null,
+      width,
+      height,
+    );
+    setRevision((r) => r + 1);
+  }
+
+  function placeBackground(
+    image: ImageBitmap | null,
+    fit: PaintBackgroundFit,
+    src: string | null,
+    width: number,
+    height: number,
+  ) {
+    backgroundRef.current = image && {
+      image,
+      fit,
+      src,
+      placement: backgroundPlacement(
+        image.width,
+        image.height,
+        width,
+        height,
+        fit,
+      ),
+    };
+    paintBackground();
+  }
+
+  // The background as a document stores it; a data URL is made on first use
+  // for Blob and bitmap sources
+  function documentBackground(): PaintDocument["background"] {
+    const bg = backgroundRef.current;
+    if (!bg) return undefined;
+    if (!bg.src) {
+      const canvas = document.createElement("canvas");
+      canvas.width = bg.image.width;
+      canvas.height = bg.image.height;
+      canvas.getContext("2d")!.drawImage(bg.image, 0, 0);
+      bg.src = canvas.toDataURL("image/png");
     }
+    return { src: bg.src, fit: bg.fit };
+  }
+
+  async function loadImage(
+    source: PaintImageSource | null,
+    fit: PaintBackgroundFit = backgroundFit,
+  ) {
+    const { width, height } = docSize();
+    await setBackground(source, fit, width, height);
+    shareBackground();
+  }
+
+  // The background canvas, when there is an image on it — fills are bounded
+  // by the layer composited over it
+  function fillBackdrop() {
+    return (backgroundRef.current && bgCtxRef.current?.canvas) || undefined;
+  }
+
+  // What a fill sampling every layer sees: the visible stack as shown
+  function sampleMerged(canvas: { width: number; height: number }) {
+    return composeMerged(
+      canvas.width,
+      canvas.height,
+      layersRef.current,
+      (id) => layerCtxRef.current.get(id)?.canvas,
+      fillBackdrop(),
+    );
+  }
+
+  const onBackgroundErrorRef = useRef(onBackgroundError);
+  onBackgroundErrorRef.current = onBackgroundError;
+
+  // Prop changes replace whatever background is showing
+  useEffect(() => {
+    if (backgroundImage === undefined && !backgroundRef.current) return;
+    loadImage(backgroundImage ?? null).catch((error) => {
+      if (onBackgroundErrorRef.current) onBackgroundErrorRef.current(error);
+      else console.error(error);
+    });
+  }, [backgroundImage]);
+
+  // A new fit re-places the current background
+  useEffect(() => {
+    const bg = backgroundRef.current;
+    if (!bg || bg.fit === backgroundFit) return;
+    const { width, height } = docSize();
+    bg.fit = backgroundFit;
+    bg.placement = backgroundPlacement(
+      bg.image.width,
+      bg.image.height,
+      width,
+      height,
+      backgroundFit,
+    );
+    paintBackground();
+    shareBackground();
+  }, [backgroundFit]);
+
+  function clearCanvas() {
+    commitSelection();
+    const context = layerCtxRef.current.get(activeLayer.id);
+    // A blank layer has nothing to clear: no undo step, nothing for peers
+    if (!context || !contentBounds(context)) return;
+    const { width, height } = context.canvas;
+    const before = context.getImageData(0, 0, width, height);
+    context.clearRect(0, 0, width, height);
+    record(
+      context,
+      { x: 0, y: 0, w: width, h: height },
+      before,
+      { type: "clear", layer: activeLayer.id },
+      true,
+    );
+  }
+
+  // ─── Grid and guides ─────────────────────────────────────────────────────────
+
+  // The grid has a canvas of its own over the layers, redrawn rather than
+  // stretched on resize like them. The drawing handlers read it through
+  // gridRef, so dragging a guide doesn't rebind them.
+  const gridCtxRef = useRef<CanvasRenderingContext2D | null>(null);
+  const gridRef = useRef(grid);
+  gridRef.current = grid;
+  // The guide being dragged: an existing one, or one pulled out of a ruler
+  const guideDragRef = useRef<number | null>(null);
+
+  function attachGridCanvas(canvas: HTMLCanvasElement | null) {
+    if (!canvas || gridCtxRef.current?.canvas === canvas) return;
+    gridCtxRef.current = setupCanvas(canvas);
+    paintGrid();
+  }
+
+  function paintGrid() {
+    const ctx = gridCtxRef.current;
+    if (!ctx) return;
+    const { width, height } = docSize();
+    drawGrid(ctx, gridRef.current, width, height, pixelRatioRef.current);
+  }
+
+  useEffect(
+    () => paintGrid(),
+    [grid.show, grid.kind, grid.spacing, grid.color],
+  );
+
+  function setGrid(patch: Partial<PaintGrid>) {
+    setGridState((prev) => ({ ...prev, ...patch }));
+  }
+
+  // Where the pointer puts a guide, in document units
+  function guidePosition(
+    orientation: PaintGuide["orientation"],
+    e: ReactPointerEvent<HTMLElement>,
+  ) {
+    const tmp_canvas = tmp_canvas_ref.current;
+    if (!tmp_canvas) return 0;
+    const { x, y } = toDocument(tmp_canvas, e.clientX, e.clientY);
+    return Math.round(orientation === "vertical" ? x : y);
+  }
+
+  // Pressing a guide picks it up; pressing a ruler (no `index`) pulls out a
+  // new one. Either holds the pointer until it's dropped.
+  function grabGuide(
+    e: ReactPointerEvent<HTMLElement>,
+    orientation: PaintGuide["orientation"],
+    index?: number,
+  ) {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (index === undefined) {
+      index = grid.guides.length;
+      const position = guidePosition(orientation, e);
+      setGrid({ guides: [...grid.guides, { orientation, position }] });
+    }
+    guideDragRef.current = index;
+  }
+
+  function dragGuide(
+    e: ReactPointerEvent<HTMLElement>,
+    orientation: PaintGuide["orientation"],
+  ) {
+    const index = guideDragRef.current;
+    if (index === null || !e.currentTarget.hasPointerCapture(e.pointerId)) {
+      return;
+    }
+    const position = guidePosition(orientation, e);
+    setGridState((prev) => ({
+      ...prev,
+      guides: prev.guides.map((g, i) => (i === index ? { ...g, position } : g)),
+    }));
+  }
+
+  // A guide dropped off the document, back on its ruler, is removed
+  function dropGuide(
+    e: ReactPointerEvent<HTMLElement>,
+    orientation: PaintGuide["orientation"],
+  ) {
+    const index = guideDragRef.current;
+    guideDragRef.current = null;
+    if (index === null) return;
+    const position = guidePosition(orientation, e);
+    const doc = docSize();
+    const extent = orientation === "vertical" ? doc.width : doc.height;
+    if (position < 0 || position > extent) removeGuide(index);
+  }
+
+  function removeGuide(index: number) {
+    setGridState((prev) => ({
+      ...prev,
+      guides: prev.guides.filter((_, i) => i !== index),
+    }));
+  }
+
+  // ─── Colours ──────────────────────────────────────────────────────────────────
+
+  // Moves `color` to the front of the recent colours
+  function rememberColor(color: string) {
+    if (recentColorsLimit <= 0) return;
+    recentChangedRef.current = true;
+    setRecentColors((prev) =>
+      [
+        color,
+        ...prev.filter((c) => c.toLowerCase() !== color.toLowerCase()),
+      ].slice(0, recentColorsLimit),
+    );
+  }
+
+  useEffect(() => {
+    recentChangedRef.current = false;
+    if (!recentColorsKey) return;
+    try {
+      const stored: unknown = JSON.parse(
+        localStorage.getItem(recentColorsKey) ?? "[]",
+      );
+      if (Array.isArray(stored)) {
+        setRecentColors(
+          stored
+            .filter((c): c is string => typeof c === "string")
+            .slice(0, recentColorsLimit),
+        );
+      }
+    } catch {
+      // Storage blocked, or the key holds something else: start afresh
+    }
+  }, [recentColorsKey]);
+
+  useEffect(() => {
+    if (!recentColorsKey || !recentChangedRef.current) return;
+    try {
+      localStorage.setItem(recentColorsKey, JSON.stringify(recentColors));
+    } catch {
+      // Storage blocked or full: they're still kept for this session
+    }
+  }, [recentColors, recentColorsKey]);
+
+  // Picks up the colour shown at (x, y) in document units as the drawing
+  // colour; nothing over a transparent spot
+  function pickColorAt(x: number, y: number) {
+    const dpr = pixelRatioRef.current;
+    const picked = sampleColor(
+      layersRef.current,
+      (id) => layerCtxRef.current.get(id)?.canvas,
+      fillBackdrop(),
+      x * dpr,
+      y * dpr,
+      eyedropperRadius * dpr,
+    );
+    if (picked) setMarker(picked);
+  }
+
+  // ─── Text ─────────────────────────────────────────────────────────────────────
+
+  function setFillOptions(patch: Partial<PaintFillOptions>) {
+    setFillOptionsState((prev) => ({ ...prev, ...patch }));
+  }
+
+  function setGradientOptions(patch: Partial<PaintGradientOptions>) {
+    setGradientOptionsState((prev) => ({ ...prev, ...patch }));
+  }
+
+  function setSymmetry(patch: Partial<PaintSymmetry>) {
+    setSymmetryState((prev) => ({ ...prev, ...patch }));
+  }
+
+  // Drags the symmetry centre handle, which holds the pointer while pressed
+  function moveSymmetryCentre(e: ReactPointerEvent<HTMLElement>) {
+    const tmp_canvas = tmp_canvas_ref.current;
+    if (!tmp_canvas || !e.currentTarget.hasPointerCapture(e.pointerId)) return;
+    const { x, y } = toDocument(tmp_canvas, e.clientX, e.clientY);
+    setSymmetry({ center: { x: Math.round(x), y: Math.round(y) } });
+  }
+
+  function setTextOptions(patch: Partial<PaintTextOptions>) {
+    setTextOptionsState((prev) => ({ ...prev, ...patch }));
+  }
+
+  // Rasterises the open text box onto the active layer (empty boxes just close)
+  function commitText() {
+    const el = textAreaRef.current;
+    const ctx = layerCtxRef.current.get(activeLayer.id);
+    setTextBox(null);
+    if (!textBox || !el || !ctx || !el.value.trim()) return;
+    const dpr = pixelRatioRef.current;
+    const rect = rectFromText(
+      ctx,
+      el.value,
+      textBox.x,
+      textBox.y,
+      textOptions,
+      dpr,
+    );
+    if (!rect) return;
+    const op: PaintOp = {
+      type: "text",
+      layer: activeLayer.id,
+      x: textBox.x,
+      y: textBox.y,
+      text: el.value,
+      color: marker,
+      ...textOptions,
+    };
+    const before = ctx.getImageData(rect.x, rect.y, rect.w, rect.h);
+    renderOp(ctx, op, dpr);
+    record(ctx, rect, before, op);
+  }
+
+  // Grow the box to fit its content in the current font
+  function fitTextBox() {
+    const el = textAreaRef.current;
+    if (!el || !tmp_context) return;
+    const { width } = measureTextBlock(tmp_context, el.value, textOptions);
+    el.rows = Math.max(1, el.value.split("\n").length);
+    el.style.width = `${Math.ceil(width) + textOptions.fontSize}px`;
+  }
+
+  useEffect(fitTextBox, [textBox, textOptions, tmp_context]);
+
+  // Leaving the text tool places whatever is being typed
+  useEffect(() => {
+    if (toolSelection !== "text" && textBox) commitText();
+  }, [toolSelection]);
+
+  // ─── Selection ──────────────────────────────────────────────────────────────
+
+  // Redraws the floating pixels and their handles on tmp_canvas
+  function showFloating() {
+    const tmp_canvas = tmp_canvas_ref.current;
+    const tmp_ctx = tmp_canvas?.getContext("2d");
+    if (!tmp_canvas || !tmp_ctx) return;
+    tmp_ctx.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
+    const f = floatingRef.current;
+    if (!f) return;
+    drawFloating(tmp_ctx, f.image, f.transform, pixelRatioRef.current);
+    drawSelectionChrome(tmp_ctx, f.transform);
+  }
+
+  function setFloating(f: Floating | null) {
+    floatingRef.current = f;
+    setHasSelection(!!f);
+    showFloating();
+  }
+
+  // Cuts `region` out of the active layer into a floating selection
+  function liftSelection(region: SelectionRegion) {
+    const ctx = layerCtxRef.current.get(activeLayer.id);
+    if (!ctx) return;
+    const { width, height } = ctx.canvas;
+    const snapshot = ctx.getImageData(0, 0, width, height);
+    const image = liftRegion(
+      ctx,
+      region,
+      pixelRatioRef.current,
+    ) as HTMLCanvasElement;
+    const { x, y, w, h } = region;
+    const transform = { x, y, w, h, rotation: 0 };
+    setFloating({
+      ctx,
+      layer: activeLayer.id,
+      image,
+      region,
+      src: null,
+      origin: transform,
+      transform,
+      snapshot,
+    });
+  }
+
+  // Places a pasted image on the active layer as a floating selection, shrunk
+  // to fit and centred
+  function pasteImage(bitmap: ImageBitmap) {
+    const ctx = layerCtxRef.current.get(activeLayer.id);
+    if (!ctx) return;
+    commitSelection();
+    const image = document.createElement("canvas");
+    image.width = bitmap.width;
+    image.height = bitmap.height;
+    image.getContext("2d")!.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    const { width, height } = docSize();
+    const k = Math.min(
+      1,
+      (width * 0.9) / image.width,
+      (height * 0.9) / image.height,
+    );
+    const w = image.width * k;
+    const h = image.height * k;
+    const transform = {
+      x: (width - w) / 2,
+      y: (height - h) / 2,
+      w,
+      h,
+      rotation: 0,
+    };
+    setFloating({
+      ctx,
+      layer: activeLayer.id,
+      image,
+      region: null,
+      src: image.toDataURL("image/png"),
+      origin: transform,
+      transform,
+      snapshot: ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height),
+    });
+    setToolSelection((tool) => (isSelectionTool(tool) ? tool : "select"));
+  }
+
+  function commitSelection() {
+    const f = floatingRef.current;
+    if (!f) return;
+    setFloating(null);
+    const { ctx, region, transform: t } = f;
+    const { width, height } = ctx.canvas;
+    const moved = (Object.keys(t) as Array<keyof FloatTransform>).some(
+      (k) => t[k] !== f.origin[k],
+    );
+    // Lifted and dropped in place: put the pixels back, nothing to record
+    if (region && !moved) {
+      const rect = boxRect(ctx, region);
+      if (rect) {
+        ctx.putImageData(f.snapshot, 0, 0, rect.x, rect.y, rect.w, rect.h);
+      }
+      return;
+    }
+    const rect = unionRect(
+      region && boxRect(ctx, region),
+      boxRect(ctx, floatBounds(t)),
+      width,
+      height,
+    );
+    if (!rect) return;
+    drawFloating(ctx, f.image, t, pixelRatioRef.current);
+    let op: PaintOp;
+    if (region) {
+      op = { type: "selection", layer: f.layer, region, to: t };
+    } else {
+      op = { type: "image", layer: f.layer, src: f.src!, to: t };
+      cacheImage(f.src!, f.image);
+    }
+    record(ctx, rect, cropImageData(f.snapshot, rect), op);
+  }
+
+  function cancelSelection() {
+    const f = floatingRef.current;
+    if (!f) return;
+    setFloating(null);
+    const rect = f.region && boxRect(f.ctx, f.region);
+    if (rect) {
+      f.ctx.putImageData(f.snapshot, 0, 0, rect.x, rect.y, rect.w, rect.h);
+    }
+  }
+
+  function deleteSelection() {
+    const f = floatingRef.current;
+    if (!f) return;
+    setFloating(null);
+    // A lifted region is already cleared from its layer; a paste just vanishes
+    const rect = f.region && boxRect(f.ctx, f.region);
+    if (!f.region || !rect) return;
+    record(f.ctx, rect, cropImageData(f.snapshot, rect), {
+      type: "selection",
+      layer: f.layer,
+      region: f.region,
+      to: null,
+    });
+  }
+
+  function moveSelection(dx: number, dy: number) {
+    const f = floatingRef.current;
+    if (!f) return;
+    const t = f.transform;
+    f.transform = { ...t, x: t.x + dx, y: t.y + dy };
+    showFloating();
+  }
+
+  async function copySelection() {
+    const f = floatingRef.current;
+    if (!f) return;
+    // Render as placed (scaled / rotated), cropped to its bounds, at the
+    // canvas's pixel density
+    const dpr = pixelRatioRef.current;
+    const b = floatBounds(f.transform);
+    const out = document.createElement("canvas");
+    out.width = Math.max(1, Math.round(b.w * dpr));
+    out.height = Math.max(1, Math.round(b.h * dpr));
+    drawFloating(
+      out.getContext("2d")!,
+      f.image,
+      { ...f.transform, x: f.transform.x - b.x, y: f.transform.y - b.y },
+      dpr,
+    );
+    const blob = new Promise<Blob>((resolve, reject) =>
+      out.toBlob(
+        (b) => (b ? resolve(b) : reject(new Error("PNG encoding failed"))),
+        "image/png",
+      ),
+    );
+    await navigator.clipboard.write([new ClipboardItem({ "image/png": blob })]);
+  }
+
+  async function cutSelection() {
+    if (!floatingRef.current) return;
+    // Start the clipboard write inside the user gesture, then delete
+    const copied = copySelection();
+    deleteSelection();
+    await copied;
+  }
+
+  // Leaving the selection tools or switching layer drops the selection
+  useEffect(() => {
+    if (!isSelectionTool(toolSelection)) commitSelection();
+  }, [toolSelection]);
+
+  useEffect(() => {
+    if (floatingRef.current?.layer !== activeLayer.id) commitSelection();
+  }, [activeLayer.id]);
+
+  // ─── Layers ──────────────────────────────────────────────────────────────────
+
+  // Lowest free "layer-N", skipping ids still referenced by ops (e.g. layers
+  // that only survive as merge sources). On a shared board ids start with
+  // this peer's, so layers added on two peers at once stay apart.
+  function nextLayer() {
+    const taken = new Set(layers.map((l) => l.id));
+    for (const op of opsRef.current) {
+      taken.add(op.layer);
+      if (op.type === "merge") taken.add(op.source);
+    }
+    const prefix = collabRef.current ? `${selfRef.current.id}:` : "";
+    let n = layers.length + 1;
+    while (taken.has(`${prefix}layer-${n}`)) n++;
+    return { id: `${prefix}layer-${n}`, n };
+  }
+
+  function addLayer() {
+    const { id, n } = nextLayer();
+    const layer = createLayer(id, `Layer ${n}`);
+    const i = layers.indexOf(activeLayer);
+    setLayers([...layers.slice(0, i + 1), layer, ...layers.slice(i + 1)]);
+    setActiveLayerId(layer.id);
+  }
+
+  function removeLayer(id: string) {
+    commitSelection();
+    const i = layers.findIndex((l) => l.id === id);
+    if (i === -1 || layers.length <= 1) return;
+    const ctx = layerCtxRef.current.get(id);
+    if (ctx) historyRef.current!.drop(ctx);
+    layerCtxRef.current.delete(id);
+    opsRef.current = opsRef.current.filter((op) => op.layer !== id);
+    const next = layers.filter((l) => l.id !== id);
+    setLayers(next);
+    if (id === activeLayer.id) setActiveLayerId(next[Math.max(0, i - 1)].id);
+    syncHistory();
+  }
+
+  function duplicateLayer(id: string) {
+    commitSelection();
+    const i = layers.findIndex((l) => l.id === id);
+    const ctx = layerCtxRef.current.get(id);
+    if (i === -1 || !ctx) return;
+    const source = layers[i];
+    const { id: copyId } = nextLayer();
+    const layer = { ...source, id: copyId, name: `${source.name} copy` };
+    pendingCopyRef.current.set(layer.id, ctx.canvas);
+    // Replaying the source layer's ops onto the copy rebuilds the same pixels
+    const copies = opsRef.current
+      .filter((op) => op.layer === id)
+      .map((op) => ({ ...op, layer: layer.id }));
+    opsRef.current.push(...copies);
+    shareOps(copies);
+    setLayers([...layers.slice(0, i + 1), layer, ...layers.slice(i + 1)]);
+    setActiveLayerId(layer.id);
+  }
+
+  function mergeLayerDown(id: string) {
+    commitSelection();
+    const i = layers.findIndex((l) => l.id === id);
+    if (i < 1) return;
+    const source = layers[i];
+    const target = layers[i - 1];
+    const sourceCtx = layerCtxRef.current.get(source.id);
+    const targetCtx = layerCtxRef.current.get(target.id);
+    if (!sourceCtx || !targetCtx) return;
+    // A hidden layer contributes nothing, same as when flattening
+    const opacity = source.visible ? source.opacity : 0;
+    compositeLayer(targetCtx, sourceCtx.canvas, opacity, source.blendMode);
+    // Earlier diffs on either layer no longer line up with their pixels
+    historyRef.current!.drop(sourceCtx);
+    historyRef.current!.drop(targetCtx);
+    layerCtxRef.current.delete(source.id);
+    const op: PaintOp = {
+      type: "merge",
+      layer: target.id,
+      source: source.id,
+      opacity,
+      blendMode: source.blendMode,
+    };
+    opsRef.current.push(op);
+    shareOps([op]);
+    setLayers(layers.filter((l) => l !== source));
+    if (activeLayer.id === source.id) setActiveLayerId(target.id);
+    syncHistory();
+  }
+
+  function moveLayer(id: string, index: number) {
+    setLayers((prev) => {
+      const layer = prev.find((l) => l.id === id);
+      if (!layer) return prev;
+      const next = prev.filter((l) => l !== layer);
+      next.splice(Math.max(0, Math.min(next.length, index)), 0, layer);
+      return next;
+    });
+  }
+
+  function updateLayer(id: string, patch: Partial<Omit<PaintLayer, "id">>) {
+    setLayers((prev) =>
+      prev.map((l) => (l.id === id ? { ...l, ...patch } : l)),
+    );
+  }
+
+  function undo() {
+    // Undoing while a selection floats just puts it back
+    if (floatingRef.current) return cancelSelection();
+    const op = historyRef.current!.undo();
+    if (!op) return;
+    const ops = opsRef.current;
+    const i = ops.lastIndexOf(op);
+    if (i !== -1) ops.splice(i, 1);
+    const stamp = collabRef.current && stampsRef.current.get(op);
+    if (stamp) {
+      collabRef.current!.send({ type: "remove", stamps: [stamp] });
+      // The restored pixels may cover remote ops drawn since
+      if (hasRemoteOps()) rebuildLayers();
+    }
+    syncHistory();
+  }
+
+  function redo() {
+    cancelSelection();
+    const op = historyRef.current!.redo();
+    if (!op) return;
+    const stamp = collabRef.current && stampsRef.current.get(op);
+    if (stamp) {
+      // Back to its place in the shared order, for everyone
+      insertStamped(opsRef.current, stampsRef.current, op, stamp);
+      collabRef.current!.send({ type: "ops", ops: [{ ...stamp, op }] });
+      if (hasRemoteOps()) rebuildLayers();
+    } else {
+      opsRef.current.push(op);
+    }
+    syncHistory();
+  }
+
+  // ─── Collaboration ───────────────────────────────────────────────────────────
+
+  const peerIdRef = useRef<string | null>(null);
+  peerIdRef.current ??= createPeerId();
+  const peerId = collabPeer?.id ?? peerIdRef.current;
+  const self: PaintPeer = {
+    id: peerId,
+    name: collabPeer?.name ?? "Guest",
+    color: collabPeer?.color ?? peerColor(peerId),
+  };
+  const selfRef = useRef(self);
+  selfRef.current = self;
+  const collabRef = useRef(collab);
+  collabRef.current = collab;
+  const [peers, setPeers] = useState<PaintRemotePeer[]>([]);
+  // Lamport clock: past every stamp seen, so new ops sort after them all
+  const clockRef = useRef(0);
+  // Places of the shared ops in the shared order. Ops made without an
+  // adapter have none until one is joined.
+  const stampsRef = useRef(new WeakMap<PaintOp, PaintOpStamp>());
+  // Remote ops and removals waiting to be applied
+  const incomingRef = useRef<PaintCollabMessage[]>([]);
+  // Where this peer's pointer was last reported
+  const cursorRef = useRef<{ x: number; y: number } | null>(null);
+
+  // The shared layer stack, layer by layer. A layer made here for remote ops
+  // that beat it here has an entry older than any real one.
+  const layerEntriesRef = useRef(new Map<string, PaintLayerEntry>());
+  // The stack last set from other peers' changes, so it isn't sent back
+  const remoteLayersRef = useRef<PaintLayer[] | null>(null);
+  // Set when remote changes need the layers drawn again once they've mounted
+  const rebuildPendingRef = useRef(false);
+  // The shared background's stamp, and one decoded and waiting to be placed
+  const backgroundStampRef = useRef<PaintOpStamp | null>(null);
+  const incomingBackgroundRef = useRef<{
+    stamp: PaintOpStamp;
+    image: ImageBitmap | null;
+    background: PaintDocument["background"];
+  } | null>(null);
+
+  const nextStamp = () => ({
+    clock: ++clockRef.current,
+    peer: selfRef.current.id,
+  });
+
+  // Moves the clock past a stamp from another peer
+  const seen = (clock: number) => {
+    clockRef.current = Math.max(clockRef.current, clock);
+  };
+
+  const hasRemoteOps = () =>
+    opsRef.current.some((op) => {
+      const peer = stampsRef.current.get(op)?.peer;
+      return peer !== undefined && peer !== selfRef.current.id;
+    });
+
+  // Sends committed ops to the other peers, stamped after all they've seen
+  function shareOps(ops: PaintOp[]) {
+    const adapter = collabRef.current;
+    if (!adapter || !ops.length) return;
+    const stamped = ops.map((op) => {
+      const stamp = nextStamp();
+      stampsRef.current.set(op, stamp);
+      return { ...stamp, op };
+    });
+    adapter.send({ type: "ops", ops: stamped });
+  }
+
+  // Sends the background as it is now, in place of everyone else's
+  function shareBackground() {
+    const adapter = collabRef.current;
+    if (!adapter) return;
+    const stamp = nextStamp();
+    backgroundStampRef.current = stamp;
+    adapter.send({
+      type: "background",
+      stamp,
+      background: documentBackground() ?? null,
+    });
+  }
+
+  // The whole stack, as sent to a newcomer. Placeholder entries for layers
+  // only made here aren't anyone's to share.
+  const sharedLayerEntries = () =>
+    [...layerEntriesRef.current.values()].filter((e) => e.peer !== "");
+
+  // Clears every layer and renders the document again from its ops
+  function rebuildLayers() {
+    for (const ctx of layerCtxRef.current.values()) {
+      ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    }
+    replayOps(opsRef.current);
+  }
+
+  // Gives ops from other peers a layer to land on when theirs hasn't arrived
+  // yet, on top of the stack. True when any were made.
+  function adoptLayers(ops: PaintOp[]) {
+    const entries = layerEntriesRef.current;
+    let top = Math.max(0, ...[...entries.values()].map((e) => e.position));
+    let made = false;
+    for (const op of ops) {
+      const ids = op.type === "merge" ? [op.layer, op.source] : [op.layer];
+      for (const id of ids) {
+        if (entries.has(id)) continue;
+        const layer = createLayer(id, `Layer ${entries.size + 1}`);
+        entries.set(id, { clock: 0, peer: "", id, layer, position: ++top });
+        made = true;
+      }
+    }
+    return made;
+  }
+
+  // Applies what's arrived from other peers. Waits while a stroke is being
+  // drawn or a selection floats, as both expect the layer to stay as it is.
+  function applyIncoming() {
+    const incoming = incomingRef.current;
+    const background = incomingBackgroundRef.current;
+    if (!incoming.length && !background) return;
+    if (drawingRef.current || floatingRef.current) return;
+    incomingRef.current = [];
+    incomingBackgroundRef.current = null;
+    const { ops, added, appended, rebuild } = applyRemoteOps(
+      opsRef.current,
+      stampsRef.current,
+      incoming,
+    );
+    opsRef.current = ops;
+    const entries = incoming.flatMap((m) =>
+      m.type === "layers" ? m.entries : [],
+    );
+    const merged = mergeLayerEntries(layerEntriesRef.current, entries);
+    const stackChanged = adoptLayers(added) || merged;
+    if (background) {
+      const { width, height } = docSize();
+      const { fit = backgroundFit, src = null } = background.background ?? {};
+      placeBackground(background.image, fit, src, width, height);
+    }
+
+    if (stackChanged) {
+      // New layers' canvases mount first; the layers effect redraws then
+      const stack = stackFromEntries(layerEntriesRef.current.values());
+      remoteLayersRef.current = stack;
+      rebuildPendingRef.current = true;
+      setLayers(stack);
+    } else if (rebuild || background) {
+      // Ops landing mid-document, or fills bounded by a new background
+      rebuildLayers();
+    } else if (appended.length) {
+      // Ops that sort last just draw on top
+      replayOps(appended);
+    } else {
+      return;
+    }
+    setRevision((r) => r + 1);
+  }
+
+  function receive(message: PaintCollabMessage) {
+    const adapter = collabRef.current;
+    const me = selfRef.current;
+    if (!adapter) return;
+    if (message.type === "hello") {
+      // Catch the newcomer up
+      adapter.send({
+        type: "ops",
+        ops: stampedOps(opsRef.current, stampsRef.current),
+      });
+      adapter.send({ type: "layers", entries: sharedLayerEntries() });
+      const stamp = backgroundStampRef.current;
+      if (stamp) {
+        const background = documentBackground() ?? null;
+        adapter.send({ type: "background", stamp, background });
+      }
+      adapter.send({ type: "presence", peer: me, cursor: cursorRef.current });
+      updatePeer(message.peer, null);
+    } else if (message.type === "presence") {
+      updatePeer(message.peer, message.cursor);
+    } else if (message.type === "leave") {
+      setPeers((prev) => prev.filter((p) => p.id !== message.peer));
+    } else if (message.type === "ops") {
+      const ops = message.ops.filter((o) => o.peer !== me.id);
+      for (const { clock } of ops) seen(clock);
+      // Embedded images are decoded first, as rendering is synchronous. One
+      // that won't load is drawn as nothing.
+      void loadImages(ops.map((o) => o.op))
+        .catch(() => {})
+        .then(() => {
+          incomingRef.current.push({ type: "ops", ops });
+          applyIncoming();
+        });
+    } else if (message.type === "background") {
+      const { stamp, background } = message;
+      const known = backgroundStampRef.current;
+      if (known && compareStamps(known, stamp) >= 0) return;
+      seen(stamp.clock);
+      backgroundStampRef.current = stamp;
+      // Decoded first; one that won't load leaves the background as it is
+      void (background ? decodeImage(background.src) : Promise.resolve(null))
+        .then((image) => {
+          // Unless a newer one has arrived meanwhile
+          if (backgroundStampRef.current !== stamp) return;
+          incomingBackgroundRef.current = {
+            stamp,
+            image,
+            background: background ?? undefined,
+          };
+          applyIncoming();
+        })
+        .catch(() => {});
+    } else {
+      if (message.type === "layers") {
+        for (const { clock } of message.entries) seen(clock);
+      }
+      incomingRef.current.push(message);
+      applyIncoming();
+    }
+  }
+
+  function updatePeer(peer: PaintPeer, cursor: PaintRemotePeer["cursor"]) {
+    if (peer.id === selfRef.current.id) return;
+    setPeers((prev) => [
+      ...prev.filter((p) => p.id !== peer.id),
+      { ...peer, cursor },
+    ]);
+  }
+
+  const receiveRef = useRef(receive);
+  receiveRef.current = receive;
+
+  // Joins on mount or a new adapter, and leaves on unmount. What's on the
+  // board already (ops, layers and background) is shared as this peer's.
+  useEffect(() => {
+    if (!collab) return;
+    for (const op of opsRef.current) {
+      if (stampsRef.current.has(op)) continue;
+      stampsRef.current.set(op, nextStamp());
+    }
+    const entries = layerEntriesRef.current;
+    const stack = layerChanges(entries, layersRef.current, nextStamp);
+    mergeLayerEntries(entries, stack);
+    const unsubscribe = collab.subscribe((m) => receiveRef.current(m));
+    collab.send({ type: "hello", peer: selfRef.current });
+    if (opsRef.current.length) {
+      collab.send({
+        type: "ops",
+        ops: stampedOps(opsRef.current, stampsRef.current),
+      });
+    }
+    collab.send({ type: "layers", entries: sharedLayerEntries() });
+    if (backgroundRef.current) shareBackground();
+    return () => {
+      collab.send({ type: "leave", peer: selfRef.current.id });
+      unsubscribe();
+      setPeers([]);
+    };
+  }, [collab]);
+
+  // Layer changes made here are shared. Fills that sample every layer were
+  // drawn with the stack as it was then, so on a shared board they're
+  // redrawn with the stack as it is, the same on every peer.
+  useEffect(() => {
+    const adapter = collabRef.current;
+    if (!adapter) return;
+    if (layers !== remoteLayersRef.current) {
+      const entries = layerEntriesRef.current;
+      const changes = layerChanges(entries, layers, nextStamp);
+      mergeLayerEntries(entries, changes);
+      if (changes.length) adapter.send({ type: "layers", entries: changes });
+    }
+    if (rebuildPendingRef.current || opsRef.current.some(samplesMerged)) {
+      rebuildPendingRef.current = false;
+      rebuildLayers();
+    }
+  }, [layers]);
+
+  // Shares where the pointer is over the document, at most once a frame
+  useEffect(() => {
+    const stage = stageRef.current;
+    const tmp_canvas = tmp_canvas_ref.current;
+    if (!collab || !stage || !tmp_canvas || readOnly) return;
+    let frame = 0;
+    const send = () => {
+      frame = 0;
+      collab.send({
+        type: "presence",
+        peer: selfRef.current,
+        cursor: cursorRef.current,
+      });
+    };
+    const onMove = (ev: PointerEvent) => {
+      cursorRef.current = toDocument(tmp_canvas, ev.clientX, ev.clientY);
+      frame ||= requestAnimationFrame(send);
+    };
+    const onLeave = () => {
+      cancelAnimationFrame(frame);
+      cursorRef.current = null;
+      send();
+    };
+    stage.addEventListener("pointermove", onMove);
+    stage.addEventListener("pointerleave", onLeave);
+    return () => {
+      cancelAnimationFrame(frame);
+      stage.removeEventListener("pointermove", onMove);
+      stage.removeEventListener("pointerleave", onLeave);
+    };
+  }, [collab, readOnly]);
+
+  // A new name or colour is shown to the others straight away
+  useEffect(() => {
+    collabRef.current?.send({
+      type: "presence",
+      peer: selfRef.current,
+      cursor: cursorRef.current,
+    });
+  }, [self.id, self.name, self.color]);
+
+  // Remote ops held back by a floating selection
+  useEffect(() => {
+    if (!hasSelection) applyIncoming();
+  }, [hasSelection]);
+
+  function exportDocument(): PaintDocument {
+    const doc: PaintDocument = {
+      version: PAINT_DOCUMENT_VERSION,
+      ...docSize(),
+      layers: structuredClone(layers),
+      ops: structuredClone(opsRef.current),
+    };
+    const background = documentBackground();
+    if (background) doc.background = background;
+    return doc;
+  }
+
+  async function loadDocument(input: PaintDocument | string) {
+    const doc = structuredClone(parseDocument(input));
+    if (doc.layers.length === 0) doc.layers = [createLayer("layer-1", "Layer 1")];
+    // Rendering is synchronous, so decode embedded images up front. The
+    // document's background (or lack of one) replaces the current one.
+    await Promise.all([
+      loadImages(doc.ops),
+      setBackground(
+        doc.background?.src ?? null,
+        doc.background?.fit ?? backgroundFit,
+        doc.width || docSize().width,
+        doc.height || docSize().height,
+      ),
+    ]);
+    setFloating(null);
+    pendingDocRef.current = doc;
+    layerCtxRef.current.clear();
+    // On a shared board the document replaces the drawing for everyone
+    const shared = stampedOps(opsRef.current, stampsRef.current);
+    if (collabRef.current && shared.length) {
+      const stamps = shared.map(({ clock, peer }) => ({ clock, peer }));
+      collabRef.current.send({ type: "remove", stamps });
+    }
+    shareBackground();
+    opsRef.current = [];
+    historyRef.current!.clear();
+    setLayers(doc.layers);
+    setActiveLayerId(doc.layers[doc.layers.length - 1].id);
+    setDocKey((k) => k + 1);
+    syncHistory();
+  }
+
+  // Replay a loaded document once its fresh layer canvases have mounted
+  useEffect(() => {
+    const doc = pendingDocRef.current;
+    if (!doc) return;
+    pendingDocRef.current = null;
+    replayOps(doc.ops);
+    opsRef.current = doc.ops;
+    shareOps(doc.ops);
+  }, [docKey]);
+
+  // Declared after the replay above so a loaded document is reported with
+  // its ops in place
+  const reportedRef = useRef({ revision, layers });
+  useEffect(() => {
+    const last = reportedRef.current;
+    if (last.revision === revision && last.layers === layers) return;
+    reportedRef.current = { revision, layers };
+    onChangeRef.current?.(exportDocument());
+    recorderRef.current?.capture(opsRef.current, layers, (op) =>
+      strokeTimesRef.current.get(op),
+    );
+    schedulePersist();
+  }, [revision, layers]);
+
+  // ─── Autosave ────────────────────────────────────────────────────────────────
+
+  // Set once the stored drawing has been restored (or found missing), so
+  // the blank canvas before it never overwrites it
+  const persistReadyRef = useRef(false);
+  const persistTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+  const onPersistErrorRef = useRef(onPersistError);
+  onPersistErrorRef.current = onPersistError;
+
+  function reportPersistError(error: unknown) {
+    if (onPersistErrorRef.current) onPersistErrorRef.current(error);
+    else console.error(error);
+  }
+
+  // Saves a moment after the last of a burst of changes
+  function schedulePersist() {
+    if (!persistKey || !persistReadyRef.current) return;
+    if (persistTimerRef.current) clearTimeout(persistTimerRef.current);
+    persistTimerRef.current = setTimeout(persistNow, PERSIST_DELAY);
+  }
+
+  function persistNow(key = persistKey) {
+    if (persistTimerRef.current) clearTimeout(persistTimerRef.current);
+    persistTimerRef.current = null;
+    if (!key || !persistReadyRef.current) return;
+    writePersisted(key, exportDocument()).catch(reportPersistError);
+  }
+
+  async function clearPersisted() {
+    if (persistTimerRef.current) clearTimeout(persistTimerRef.current);
+    persistTimerRef.current = null;
+    if (!persistKey) return;
+    try {
+      await deletePersisted(persistKey);
+    } catch (error) {
+      reportPersistError(error);
+    }
+  }
+
+  const persistNowRef = useRef(persistNow);
+  persistNowRef.current = persistNow;
+
+  useEffect(() => {
+    persistReadyRef.current = false;
+    if (!persistKey) return;
+    let cancelled = false;
+    readPersisted(persistKey)
+      .then(async (doc) => {
+        if (cancelled || !doc) return;
+        await loadDocument(doc);
+        onRestoreRef.current?.(doc);
+      })
+      .catch(reportPersistError)
+      .finally(() => {
+        if (!cancelled) persistReadyRef.current = true;
+      });
+
+    // A save still waiting when the page goes away (or the key changes) is
+    // made straight away
+    const flush = () => {
+      if (persistTimerRef.current) persistNowRef.current(persistKey);
+    };
+    window.addEventListener("pagehide", flush);
+    return () => {
+      cancelled = true;
+      window.removeEventListener("pagehide", flush);
+      flush();
+    };
+  }, [persistKey]);
+
+  // ─── Recording ───────────────────────────────────────────────────────────────
+
+  function startRecording() {
+    recorderRef.current = createRecorder(exportDocument(), opsRef.current);
+  }
+
+  function stopRecording() {
+    const recorder = recorderRef.current;
+    recorderRef.current = null;
+    return recorder?.stop() ?? null;
+  }
+
+  // Renders an export: SVG markup, or a canvas for the raster formats. The
+  // layers are re-rendered from the document at `scale` rather than copied.
+  function renderExport({
+    type = "image/png",
+    scale = pixelRatioRef.current,
+    background = true,
+    crop = false,
+  }: PaintExportOptions): string | HTMLCanvasElement {
+    commitSelection();
+    const doc = docSize();
+    const width = Math.max(1, Math.round(doc.width * scale));
+    const height = Math.max(1, Math.round(doc.height * scale));
+    const blank = () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = width;
+      canvas.height = height;
+      return canvas.getContext("2d")!;
+    };
+
+    // Fills replay against the background whether or not it's exported
+    const bg = backgroundRef.current;
+    const backdrop = bg ? blank() : undefined;
+    if (bg && backdrop) {
+      drawBackground(backdrop, bg.image, bg.placement, scale);
+    }
+    const rendered = new Map<string, CanvasRenderingContext2D>();
+    renderOps(
+      (id) => {
+        let ctx = rendered.get(id);
+        if (!ctx) {
+          ctx = blank();
+          rendered.set(id, ctx);
+        }
+        return ctx;
+      },
+      opsRef.current,
+      scale,
+      backdrop?.canvas,
+      layers,
+      brushFor,
+    );
+    const flat = blank();
+    flattenLayers(flat, layers, (id) => rendered.get(id)?.canvas);
+
+    // Crop in canvas pixels; auto-crop ignores the background
+    let rect: PixelRect | null = null;
+    if (crop === true) {
+      rect = contentBounds(flat);
+    } else if (crop) {
+      rect = rectFromPoints(
+        [
+          { x: crop.x, y: crop.y },
+          { x: crop.x + crop.w, y: crop.y + crop.h },
+        ],
+        0,
+        width,
+        height,
+        scale,
+      );
+    }
+    rect ??= { x: 0, y: 0, w: width, h: height };
+
+    if (type === "image/svg+xml") {
+      const { background: bgDoc, ...exported } = exportDocument();
+      return documentToSvg(exported, {
+        rasterFor: (id) => rendered.get(id)?.canvas.toDataURL() ?? "",
+        background:
+          background && bg && bgDoc
+            ? { src: bgDoc.src, placement: bg.placement }
+            : undefined,
+        crop: {
+          x: rect.x / scale,
+          y: rect.y / scale,
+          w: rect.w / scale,
+          h: rect.h / scale,
+        },
+      });
+    }
+
+    const out = document.createElement("canvas");
+    out.width = rect.w;
+    out.height = rect.h;
+    const outCtx = out.getContext("2d")!;
+    // JPEG has no alpha; transparent pixels would come out black
+    if (type === "image/jpeg") {
+      outCtx.fillStyle = "#fff";
+      outCtx.fillRect(0, 0, rect.w, rect.h);
+    }
+    if (background && backdrop) {
+      outCtx.drawImage(backdrop.canvas, -rect.x, -rect.y);
+    }
+    outCtx.drawImage(flat.canvas, -rect.x, -rect.y);
+    return out;
+  }
+
+  function toBlob(options: PaintExportOptions = {}) {
+    const out = renderExport(options);
+    if (typeof out === "string") {
+      return Promise.resolve(new Blob([out], { type: "image/svg+xml" }));
+    }
+    return new Promise<Blob>((resolve, reject) =>
+      out.toBlob(
+        (blob) =>
+          blob ? resolve(blob) : reject(new Error("Failed to encode image")),
+        options.type ?? "image/png",
+        options.quality,
+      ),
+    );
+  }
+
+  async function toDataURL(options: PaintExportOptions = {}) {
+    const out = renderExport(options);
+    return typeof out === "string"
+      ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(out)}`
+      : out.toDataURL(options.type ?? "image/png", options.quality);
+  }
+
+  function saveImage(options: PaintSaveOptions = {}) {
+    writeImage(options).catch((error) => {
+      if (onSaveError) onSaveError(error);
+      else console.error(error);
+    });
+  }
+
+  async function writeImage(options: PaintSaveOptions) {
+    const { filename = "sketch", ...exportOptions } = {
+      ...saveOptions,
+      ...options,
+    };
+    const blob = await toBlob(exportOptions);
+    const name = /\.\w+$/.test(filename)
+      ? filename
+      : `${filename}.${EXTENSIONS[exportOptions.type ?? "image/png"]}`;
+    if (onSave) {
+      await onSave(blob, name);
+      return;
+    }
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = name;
+    a.click();
+    a.remove();
+    // Revoking synchronously can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url));
+  }
+
+  useImperativeHandle(ref, () => ({
+    clearCanvas,
+    saveImage,
+    toBlob,
+    toDataURL,
+    loadImage,
+    undo,
+    redo,
+    get canUndo() {
+      return historyRef.current!.canUndo;
+    },
+    get canRedo() {
+      return historyRef.current!.canRedo;
+    },
+    exportDocument,
+    loadDocument,
+    startRecording,
+    stopRecording,
+    clearPersisted,
+    setZoom,
+    resetView,
+  }));
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redo, and with a floating
+  // selection: Escape / Enter / Delete / arrows, Ctrl/Cmd+C and +X. Skipped
+  // while typing in a form field so the browser's own shortcuts work there,
+  // and for keys meant for the rest of the page or another Paint. Only refs
+  // are read, so binding once is safe.
+  useEffect(() => {
+    if (readOnly) return;
+    const onKeyDown = (ev: KeyboardEvent) => {
+      if (isEditableTarget(ev.target) || !ownsEvent(ev)) return;
+      const mod = ev.ctrlKey || ev.metaKey;
+
+      if (floatingRef.current && !mod && !ev.altKey) {
+        const step = ev.shiftKey ? 10 : 1;
+        switch (ev.key) {
+          case "Escape":
+            cancelSelection();
+            break;
+          case "Enter":
+            commitSelection();
+            break;
+          case "Delete":
+          case "Backspace":
+            deleteSelection();
+            break;
+          case "ArrowLeft":
+            moveSelection(-step, 0);
+            break;
+          case "ArrowRight":
+            moveSelection(step, 0);
+            break;
+          case "ArrowUp":
+            moveSelection(0, -step);
+            break;
+          case "ArrowDown":
+            moveSelection(0, step);
+            break;
+          default:
+            return;
+        }
+        ev.preventDefault();
+        return;
+      }
+
+      if (!mod || ev.altKey) return;
+      const key = ev.key.toLowerCase();
+      if ((key === "c" || key === "x") && floatingRef.current) {
+        ev.preventDefault();
+        (key === "c" ? copySelection() : cutSelection()).catch(() => {});
+      } else if (key === "z") {
+        ev.preventDefault();
+        if (ev.shiftKey) redo();
+        else undo();
+      } else if (key === "y" && !ev.shiftKey) {
+        ev.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [readOnly]);
+
+  // ─── Shortcuts and announcements ─────────────────────────────────────────────
+
+  const bindings = resolveKeymap(keymap);
+  const isMac =
+    typeof navigator !== "undefined" &&
+    /Mac|iP(hone|ad)/.test(navigator.platform);
+
+  function shortcutFor(command: PaintCommand) {
+    for (const [combo, bound] of bindings) {
+      if (bound === command) return formatCombo(combo, isMac);
+    }
+    return undefined;
+  }
+
+  // A tool's name, with its shortcut if it has one, for tooltips
+  const toolTitle = (tool: PaintTool) => {
+    const key = shortcutFor(`tool:${tool}`);
+    return key ? `${TOOL_TITLES[tool]} (${key})` : TOOL_TITLES[tool];
+  };
+
+  // Read out by screen readers from the visually hidden status region
+  const [announcement, setAnnouncement] = useState("");
+
+  function runCommand(command: PaintCommand) {
+    if (command === "save") {
+      saveImage();
+    } else if (command === "size-down" || command === "size-up") {
+      const { min, max, step } = BRUSH_SIZE_RANGE;
+      const delta = command === "size-up" ? step : -step;
+      const size = Math.min(max, Math.max(min, markerWidth + delta));
+      setMarkerWidth(size);
+      setAnnouncement(`Size ${size}px`);
+    } else if (command.startsWith("color:")) {
+      const color = colors[Number(command.slice(6)) - 1];
+      if (color) setMarker(color);
+    } else {
+      setToolSelection(command.slice(5) as PaintTool);
+    }
+  }
+
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+  const runCommandRef = useRef(runCommand);
+  runCommandRef.current = runCommand;
+
+  // The keymap. Skipped while typing in a form field, for keys another
+  // handler (e.g. the selection's) has used, and for keys that aren't this
+  // instance's. Only refs are read, so binding once is safe.
+  useEffect(() => {
+    if (readOnly) return;
+    const onKeyDown = (ev: KeyboardEvent) => {
+      if (ev.defaultPrevented || isEditableTarget(ev.target)) return;
+      if (!ownsEvent(ev)) return;
+      const command = bindingsRef.current.get(comboFor(ev));
+      if (!command) return;
+      ev.preventDefault();
+      runCommandRef.current(command);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [readOnly]);
+
+  // Tool and colour changes, from anywhere, are announced. Not on mount.
+  const announcedRef = useRef({ tool: toolSelection, color: marker });
+  useEffect(() => {
+    if (announcedRef.current.tool === toolSelection) return;
+    announcedRef.current.tool = toolSelection;
+    setAnnouncement(`${TOOL_TITLES[toolSelection]} tool`);
+  }, [toolSelection]);
+  useEffect(() => {
+    if (announcedRef.current.color === marker) return;
+    announcedRef.current.color = marker;
+    setAnnouncement(`Colour ${marker}`);
+  }, [marker]);
+
+  // Pasting an image drops it onto the active layer as a floating selection
+  useEffect(() => {
+    if (readOnly) return;
+    const onPaste = (ev: ClipboardEvent) => {
+      if (isEditableTarget(ev.target) || !ownsEvent(ev)) return;
+      const file = Array.from(ev.clipboardData?.files ?? []).find((f) =>
+        f.type.startsWith("image/"),
+      );
+      if (!file) return;
+      ev.preventDefault();
+      createImageBitmap(file).then(pasteImage, () => {});
+    };
+    window.addEventListener("paste", onPaste);
+    return () => window.removeEventListener("paste", onPaste);
+  }, [activeLayer.id, readOnly]);
+
+  // With `offscreen`, built-in brush strokes preview on a canvas of their own
+  // whose drawing is handed to a worker. A canvas can only be handed over
+  // once, so it's created here rather than rendered.
+  useEffect(() => {
+    const tmp_canvas = tmp_canvas_ref.current;
+    if (
+      !offscreen ||
+      !tmp_canvas ||
+      typeof Worker === "undefined" ||
+      !("transferControlToOffscreen" in HTMLCanvasElement.prototype)
+    ) {
+      return;
+    }
+    let worker: Worker;
+    try {
+      worker = new Worker(new URL("./strokeWorker.js", import.meta.url), {
+        type: "module",
+      });
+    } catch {
+      return;
+    }
+    const canvas = document.createElement("canvas");
+    canvas.className = classes.canvas;
+    canvas.setAttribute("aria-hidden", "true");
+    tmp_canvas.after(canvas);
+    const offscreenCanvas = canvas.transferControlToOffscreen();
+    const post = (msg: StrokeWorkerMessage, transfer: Transferable[] = []) =>
+      worker.postMessage(msg, transfer);
+    post({ type: "canvas", canvas: offscreenCanvas }, [offscreenCanvas]);
+    workerRef.current = { worker, canvas };
+    // A worker that fails to load leaves strokes to tmp_canvas
+    const onError = () => {
+      if (workerRef.current?.worker === worker) workerRef.current = null;
+    };
+    worker.addEventListener("error", onError);
+    return () => {
+      worker.terminate();
+      canvas.remove();
+      if (workerRef.current?.worker === worker) workerRef.current = null;
+    };
+  }, [offscreen]);
+
+  useEffect(() => {
+    if (!tmp_canvas_ref.current || !stageRef.current) return;
+
+    const tmp_canvas = tmp_canvas_ref.current;
+    // Pointer listeners sit on the stage so panning (and strokes) can start
+    // outside the document when zoomed out
+    const stage = stageRef.current;
+    // Brush / eraser / bucket all act on the active layer only
+    const ctx = layerCtxRef.current.get(activeLayer.id) ?? null;
+
+    let tmp_ctx: CanvasRenderingContext2D | null = null;
+
+    if (tmp_context !== null) {
+      tmp_ctx = tmp_context;
+    } else {
+      tmp_ctx = setupCanvas(tmp_canvas);
+      setTmpContext(tmp_ctx);
+      tmp_ctx.lineJoin = "round";
+      tmp_ctx.lineCap = "round";
+    }
+
+    if (tmp_ctx) {
+      tmp_ctx.lineWidth = markerWidth;
+      tmp_ctx.strokeStyle = marker;
+      tmp_ctx.fillStyle = marker;
+    }
+
+    const shapeKind = isShapeTool(toolSelection) ? toolSelection : null;
+    const selectTool = isSelectionTool(toolSelection);
+    // Undo any hover cursor left by the selection handles
+    stage.style.cursor = readOnly
+      ? ""
+      : spaceHeld
+        ? "grab"
+        : toolCursor(toolSelection);
+
+    // Pointer position in document units, whatever the zoom / pan
+    const pos = (ev: PointerEvent) =>
+      toDocument(tmp_canvas, ev.clientX, ev.clientY);
+
+    // Where a shape's end snaps to, on the grid or a guide
+    const snap = ({ x, y }: { x: number; y: number }) =>
+      snapPoint(gridRef.current, x, y, GUIDE_SNAP_REACH / viewRef.current.zoom);
+
+    const brush = brushForRef.current(brushId);
+    // With symmetry on, brush and eraser draw every mirrored copy at once
+    const { width: docWidth, height: docHeight } = docSize();
+    const axes = symmetryAxes(symmetry, docWidth, docHeight);
+    const strokeBrush = axes ? symmetricBrush(brush, axes) : brush;
+    const eraserBrush = axes ? symmetricBrush(roundBrush, axes) : roundBrush;
+
+    // Map a pointer event to a stroke width. Only pen input with `pressure`
+    // enabled varies width; mouse/touch always draw at markerWidth.
+    const widthFor = (ev: PointerEvent) => {
+      if (!pressure || ev.pointerType !== "pen") return markerWidth;
+      const floor = markerWidth * minWidthRatio;
+      const curve = pressureCurveRef.current;
+      const response =
+        typeof curve === "function" ? curve(ev.pressure) : ev.pressure ** curve;
+      return (
+        floor + Math.min(1, Math.max(0, response)) * (markerWidth - floor)
+      );
+    };
+
+    // A stroke point at (x, y), with the pen's tilt and twist for brushes
+    // that respond to them
+    const sample = (ev: PointerEvent, x: number, y: number): PaintPoint => {
+      const point: PaintPoint = { x, y, w: widthFor(ev) };
+      if (ev.pointerType !== "pen") return point;
+      if (ev.tiltX || ev.tiltY) {
+        point.tiltX = ev.tiltX;
+        point.tiltY = ev.tiltY;
+      }
+      if (ev.twist) point.twist = ev.twist;
+      return point;
+    };
+
+    // The pen's eraser end or barrel button erases for the stroke, leaving
+    // the selected tool alone
+    const erasing = () => toolSelection === "eraser" || penEraserRef.current;
+
+    const cursorStart = (ev: PointerEvent) => {
+      // Clicks inside the open text box are for the text box, and the
+      // symmetry centre handle, guides and rulers move themselves
+      if (
+        isEditableTarget(ev.target) ||
+        (ev.target instanceof Element &&
+          ev.target.closest("[data-symmetry-centre], [data-paint-guide]"))
+      ) {
+        return;
+      }
+
+      // A second finger turns the touch into a pinch: abandon the first
+      // finger's stroke and zoom / pan instead
+      if (ev.pointerType === "touch") {
+        const touches = touchesRef.current;
+        touches.set(ev.pointerId, { x: ev.clientX, y: ev.clientY });
+        if (touches.size === 2) {
+          abortStroke();
+          startPinch();
+        }
+        if (touches.size >= 2) return;
+      }
+
+      // Space-drag or middle-button drag pans
+      if (spaceRef.current || ev.button === 1) {
+        ev.preventDefault();
+        stage.setPointerCapture(ev.pointerId);
+        panRef.current = {
+          pointerId: ev.pointerId,
+          x: ev.clientX,
+          y: ev.clientY,
+          from: viewRef.current,
+        };
+        return;
+      }
+
+      // Ignore secondary pointers mid-stroke, and don't draw blind onto a
+      // hidden layer
+      if (!ev.isPrimary || !activeLayer.visible) return;
 
-    // Map a pointer event to a stroke width. Only pen input with `pressure`
-    // enabled varies width; mouse/touch always draw at markerWidth.
-    const widthFor = (ev: PointerEvent) => {
-      if (!pressure || ev.pointerType !== "pen") return markerWidth;
-      const floor = markerWidth * minWidthRatio;
-      return floor + ev.pressure * (markerWidth - floor);
-    };
+      const { x, y } = pos(ev);
 
-    const cursorStart = (ev: PointerEvent) => {
-      // Ignore secondary pointers (e.g. a second finger) mid-stroke
-      if (!ev.isPrimary) return;
+      // Eraser end: `buttons` 32. Barrel button: 2, as for a right-click.
+      const penErasing =
+        penEraser && ev.pointerType === "pen" && (ev.buttons & 34) !== 0;
+      penEraserRef.current = penErasing;
+
+      // With a selection tool, grabbing the floating selection transforms it;
+      // any other click drops it first
+      const floating = floatingRef.current;
+      const handle =
+        floating &&
+        selectTool &&
+        !penErasing &&
+        hitTestFloating(floating.transform, x, y);
+      if (floating && handle) {
+        ev.preventDefault();
+        stage.setPointerCapture(ev.pointerId);
+        drawingRef.current = true;
+        selectionDragRef.current = { handle, x, y, from: floating.transform };
+        return;
+      }
+      if (floating) commitSelection();
+
+      // The eyedropper picks up a colour; so does Alt-click with a tool that
+      // doesn't use Alt itself
+      if (
+        !penErasing &&
+        (toolSelection === "eyedropper" ||
+          (ev.altKey && ALT_PICK_TOOLS.includes(toolSelection)))
+      ) {
+        ev.preventDefault();
+        pickColorAt(x, y);
+        return;
+      }
 
-      const x = ev.offsetX;
-      const y = ev.offsetY;
+      // Text: a click places any open box and opens a new one here
+      if (toolSelection === "text" && !penErasing) {
+        ev.preventDefault();
+        if (textBox) commitText();
+        setTextBox({ x, y });
+        return;
+      }
 
       // Bucket fill is a single click — don't start a stroke
-      if (toolSelection === "bucket" && ctx) {
-        floodFill(ctx, x, y, marker, fillTolerance);
+      if (toolSelection === "bucket" && !penErasing && ctx) {
+        // The fill's extent is only known afterwards, so snapshot the whole
+        // canvas and keep just the dirty rect for history.
+        const snapshot = ctx.getImageData(
+          0,
+          0,
+          ctx.canvas.width,
+          ctx.canvas.height,
+        );
+        const { paint, ...options } = fillOptions;
+        const op: PaintFill = {
+          type: "fill",
+          layer: activeLayer.id,
+          x,
+          y,
+          color: marker,
+          tolerance: fillTolerance,
+          ...options,
+          ...(paint && { paint }),
+        };
+        const rect = fillOp(ctx, op, pixelRatio, fillBackdrop(), () =>
+          sampleMerged(ctx.canvas),
+        );
+        if (rect) record(ctx, rect, cropImageData(snapshot, rect), op);
         return;
       }
 
       ev.preventDefault();
-      tmp_canvas.setPointerCapture(ev.pointerId);
+      stage.setPointerCapture(ev.pointerId);
       drawingRef.current = true;
-      strokeVariableRef.current = pressure && ev.pointerType === "pen";
 
-      const w = widthFor(ev);
-      cursorRef.current.x = x;
-      cursorRef.current.y = y;
-      cursorRef.current.w = w;
+      // Selections drag out a marquee and lift the pixels on pointerup
+      if (selectTool && !penErasing) {
+        marqueeRef.current = [{ x, y }];
+        return;
+      }
+
+      // Shapes preview on tmp_canvas while dragging and commit on pointerup
+      if (shapeKind && !penErasing) {
+        shapeStartRef.current = snap({ x, y });
+        return;
+      }
+
+      // So do gradients, clipped to the region a fill here would take
+      if (toolSelection === "gradient" && !penErasing) {
+        gradientDragRef.current = {
+          x,
+          y,
+          clip:
+            gradientOptions.clip && ctx ? gradientClipMask(ctx, x, y) : null,
+        };
+        return;
+      }
+
+      strokeVariableRef.current = pressure && ev.pointerType === "pen";
+      pointTimesRef.current = [];
+      smootherRef.current =
+        smoothing > 0 ? createStrokeSmoother(smoothing) : null;
 
-      // Snapshot once per eraser stroke so onPaint can restore + redraw live
-      if (toolSelection === "eraser" && ctx) {
+      // Snapshot once per eraser stroke: the undo step's before-pixels, and
+      // what an abandoned stroke restores
+      if (erasing() && ctx) {
         eraserSnapshotRef.current = ctx.getImageData(
           0,
           0,
-          canvas.width,
-          canvas.height,
+          ctx.canvas.width,
+          ctx.canvas.height,
         );
+        erasedRef.current = 0;
+      } else if (tmp_ctx) {
+        previewRef.current = createStrokePreview(tmp_ctx, strokeBrush);
+        startWorkerStroke();
       }
 
-      pptsRef.current.push({ x, y, w });
+      addSamples([ev]);
       onPaint();
     };
 
+    // Hands the stroke's preview to the worker, for the built-in brushes it
+    // knows (the page may have registered others under the same ids).
+    // Mirrored strokes stay on tmp_canvas.
+    const startWorkerStroke = () => {
+      const live = workerRef.current;
+      workerSentRef.current = null;
+      if (!live || axes || !PAINT_BRUSHES.includes(brush)) return;
+      // Shown just like tmp_canvas: same size, opacity and blend mode
+      live.canvas.style.cssText = tmp_canvas.style.cssText;
+      live.worker.postMessage({
+        type: "start",
+        brush: brush.id,
+        color: marker,
+        width: markerWidth,
+        variable: strokeVariableRef.current,
+        size: {
+          width: tmp_canvas.width,
+          height: tmp_canvas.height,
+          pixelRatio,
+        },
+      } satisfies StrokeWorkerMessage);
+      workerSentRef.current = 0;
+    };
+
+    const endWorkerStroke = () => {
+      if (workerSentRef.current === null) return;
+      workerSentRef.current = null;
+      workerRef.current?.worker.postMessage({
+        type: "end",
+      } satisfies StrokeWorkerMessage);
+    };
+
+    // Feeds stroke samples to the current stroke, through the smoother
+    const addSamples = (events: PointerEvent[]) => {
+      for (const e of events) {
+        const { x, y } = pos(e);
+        const point = sample(e, x, y);
+        const smoother = smootherRef.current;
+        pptsRef.current.push(
+          smoother ? smoother.next(point, e.timeStamp) : point,
+        );
+        pointTimesRef.current.push(e.timeStamp);
+      }
+    };
+
+    // Where the browser expects the pointer to go next, for the preview only
+    const predictedPoints = (ev: PointerEvent) =>
+      (ev.getPredictedEvents?.() ?? []).map((e) => {
+        const { x, y } = pos(e);
+        const point = sample(e, x, y);
+        const smoother = smootherRef.current;
+        return smoother ? smoother.peek(point, e.timeStamp) : point;
+      });
+
+    // A fast pen reports several samples per frame; the move event only
+    // carries the last one, so stroke with them all
+    const paintMove = (ev: PointerEvent) => {
+      const coalesced = ev.getCoalescedEvents?.() ?? [];
+      addSamples(coalesced.length ? coalesced : [ev]);
+      // The preview only takes back predictions under the original stroke,
+      // so mirrored strokes go without
+      onPaint(axes ? [] : predictedPoints(ev));
+    };
+
     const cursorMove = (ev: PointerEvent) => {
-      cursorRef.current.x = ev.offsetX;
-      cursorRef.current.y = ev.offsetY;
-      cursorRef.current.w = widthFor(ev);
+      if (moveViewGesture(ev)) return;
       if (cursorCircleRef.current) {
         cursorCircleRef.current.style.left = `${ev.clientX}px`;
         cursorCircleRef.current.style.top = `${ev.clientY}px`;
       }
-      if (drawingRef.current) onPaint();
+      if (penEraserRef.current) {
+        if (drawingRef.current) paintMove(ev);
+        return;
+      }
+      if (selectTool) moveSelectTool(ev);
+      if (!drawingRef.current) return;
+      if (shapeKind) previewShape(shapeKind, shapeFor(shapeKind, ev));
+      else if (toolSelection === "gradient") previewGradient(ev);
+      else if (!selectTool) paintMove(ev);
+    };
+
+    const moveSelectTool = (ev: PointerEvent) => {
+      const { x, y } = pos(ev);
+      const floating = floatingRef.current;
+      const drag = selectionDragRef.current;
+
+      // Transform the floating selection — Shift keeps the aspect ratio when
+      // scaling and snaps rotation to 15°
+      if (floating && drag) {
+        floating.transform = dragFloating(
+          drag.from,
+          drag.handle,
+          drag.x,
+          drag.y,
+          x,
+          y,
+          { keepAspect: ev.shiftKey, snap: ev.shiftKey },
+        );
+        showFloating();
+        return;
+      }
+
+      if (!drawingRef.current) {
+        // Hover feedback for the handles
+        const handle = floating && hitTestFloating(floating.transform, x, y);
+        stage.style.cursor = handle ? HANDLE_CURSORS[handle] : "crosshair";
+        return;
+      }
+
+      const marquee = marqueeRef.current;
+      if (!tmp_ctx || marquee.length === 0) return;
+      if (toolSelection === "lasso") marquee.push({ x, y });
+      else marqueeRef.current = [marquee[0], { x, y }];
+      tmp_ctx.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
+      drawMarquee(tmp_ctx, marqueePath());
+    };
+
+    // The marquee as a closed outline: the lasso's points, or a rect's corners
+    const marqueePath = () => {
+      const marquee = marqueeRef.current;
+      if (toolSelection === "lasso" || marquee.length < 2) return marquee;
+      const [a, b] = marquee;
+      return [a, { x: b.x, y: a.y }, b, { x: a.x, y: b.y }];
+    };
+
+    // Lifts the pixels inside the finished marquee
+    const endSelectTool = () => {
+      if (selectionDragRef.current) {
+        selectionDragRef.current = null;
+        return;
+      }
+      const path = marqueePath();
+      marqueeRef.current = [];
+      tmp_ctx?.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
+      if (!ctx || path.length < 3) return;
+      // Keep the region's box on the canvas; a lasso's outline still clips it
+      const doc = docSize();
+      const b = pathBounds(path);
+      const x = Math.max(0, b.x);
+      const y = Math.max(0, b.y);
+      const w = Math.min(doc.width, b.x + b.w) - x;
+      const h = Math.min(doc.height, b.y + b.h) - y;
+      // A click (or a sliver) selects nothing
+      if (w < 2 || h < 2) return;
+      liftSelection(
+        toolSelection === "lasso" ? { x, y, w, h, path } : { x, y, w, h },
+      );
+    };
+
+    // The dragged shape's geometry — Shift constrains, Alt draws from centre,
+    // and its ends snap to the grid and guides
+    const shapeFor = (kind: PaintShapeKind, ev: PointerEvent) => {
+      const { x, y } = snap(pos(ev));
+      const start = shapeStartRef.current ?? { x, y };
+      return shapeGeometry(kind, start.x, start.y, x, y, {
+        constrain: ev.shiftKey,
+        fromCenter: ev.altKey,
+      });
+    };
+
+    const previewShape = (
+      kind: PaintShapeKind,
+      g: ReturnType<typeof shapeGeometry>,
+    ) => {
+      if (!tmp_ctx) return;
+      tmp_ctx.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
+      tmp_ctx.lineWidth = markerWidth;
+      drawShape(tmp_ctx, kind, g, shapeStyle, polygonSides);
+    };
+
+    // The bucket's settings, as a clipped gradient records them
+    const gradientClip = () => {
+      const { paint, antialias, ...options } = fillOptions;
+      return { tolerance: fillTolerance, antialias, ...options };
+    };
+
+    // The region a fill at (x, y) takes, as an alpha mask for the preview;
+    // the committed gradient is clipped by the fill itself
+    const gradientClipMask = (
+      ctx: CanvasRenderingContext2D,
+      x: number,
+      y: number,
+    ) => {
+      const { width: w, height: h } = ctx.canvas;
+      const { tolerance, sample, gap = 0, mode, distance } = gradientClip();
+      const edges =
+        fillBoundary(ctx, sample, fillBackdrop(), () =>
+          sampleMerged(ctx.canvas),
+        ) ?? ctx.getImageData(0, 0, w, h);
+      const region = fillRegion(edges, x * pixelRatio, y * pixelRatio, {
+        tolerance,
+        mode,
+        gap: gap * pixelRatio,
+        distance,
+      });
+      const mask = get2d(createCanvas(w, h));
+      if (!region) return mask.canvas;
+      const image = mask.createImageData(w, h);
+      region.mask.forEach((v, pi) => (image.data[pi * 4 + 3] = v * 255));
+      mask.putImageData(image, 0, 0);
+      return mask.canvas;
+    };
+
+    // The dragged gradient — Shift snaps its direction to 45° steps
+    const gradientFor = (ev: PointerEvent) => {
+      const { x, y } = pos(ev);
+      const start = gradientDragRef.current ?? { x, y };
+      return {
+        kind: gradientOptions.kind,
+        ...shapeGeometry("line", start.x, start.y, x, y, {
+          constrain: ev.shiftKey,
+          fromCenter: false,
+        }),
+        stops: sortStops(gradientOptions.stops),
+      };
+    };
+
+    const previewGradient = (ev: PointerEvent) => {
+      const clip = gradientDragRef.current?.clip;
+      if (!tmp_ctx) return;
+      const doc = docSize();
+      tmp_ctx.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
+      drawGradient(tmp_ctx, gradientFor(ev), doc.width, doc.height);
+      if (!clip) return;
+      tmp_ctx.save();
+      tmp_ctx.setTransform(1, 0, 0, 1, 0, 0);
+      tmp_ctx.globalCompositeOperation = "destination-in";
+      tmp_ctx.drawImage(clip, 0, 0);
+      tmp_ctx.restore();
+    };
+
+    const startPinch = () => {
+      const [a, b] = [...touchesRef.current.values()];
+      const r = stage.getBoundingClientRect();
+      pinchRef.current = {
+        dist: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+        mid: { x: (a.x + b.x) / 2 - r.left, y: (a.y + b.y) / 2 - r.top },
+        from: viewRef.current,
+      };
+    };
+
+    // Follows an active pan or pinch; true if the event belonged to one
+    const moveViewGesture = (ev: PointerEvent) => {
+      const pan = panRef.current;
+      if (pan?.pointerId === ev.pointerId) {
+        setViewport({
+          ...pan.from,
+          x: pan.from.x + ev.clientX - pan.x,
+          y: pan.from.y + ev.clientY - pan.y,
+        });
+        return true;
+      }
+
+      const touches = touchesRef.current;
+      if (!touches.has(ev.pointerId)) return false;
+      touches.set(ev.pointerId, { x: ev.clientX, y: ev.clientY });
+      const pinch = pinchRef.current;
+      if (!pinch) return false;
+      const [a, b] = [...touches.values()];
+      const r = stage.getBoundingClientRect();
+      const mid = { x: (a.x + b.x) / 2 - r.left, y: (a.y + b.y) / 2 - r.top };
+      const dist = Math.hypot(a.x - b.x, a.y - b.y);
+      // Zoom about where the fingers started, then follow their midpoint
+      const zoomed = zoomAt(
+        pinch.from,
+        (pinch.from.zoom * dist) / pinch.dist,
+        pinch.mid.x,
+        pinch.mid.y,
+      );
+      setViewport({
+        ...zoomed,
+        x: zoomed.x + mid.x - pinch.mid.x,
+        y: zoomed.y + mid.y - pinch.mid.y,
+      });
+      return true;
+    };
+
+    // Ends a pan, or a pinch once fewer than two fingers remain; true if the
+    // event belonged to one
+    const endViewGesture = (ev: PointerEvent) => {
+      touchesRef.current.delete(ev.pointerId);
+      if (panRef.current?.pointerId === ev.pointerId) {
+        panRef.current = null;
+        return true;
+      }
+      if (!pinchRef.current) return false;
+      if (touchesRef.current.size < 2) pinchRef.current = null;
+      return true;
+    };
+
+    // Drops whatever the pointer was drawing, restoring any pixels it touched
+    const abortStroke = () => {
+      if (!drawingRef.current) return;
+      drawingRef.current = false;
+      const drag = selectionDragRef.current;
+      if (drag && floatingRef.current) floatingRef.current.transform = drag.from;
+      selectionDragRef.current = null;
+      marqueeRef.current = [];
+      shapeStartRef.current = null;
+      gradientDragRef.current = null;
+      const snapshot = eraserSnapshotRef.current;
+      if (snapshot && ctx) {
+        // Only the pixels the eraser can have reached
+        const rect = rectFromPoints(
+          symmetricPoints(pptsRef.current, axes),
+          strokePad(roundBrush, pptsRef.current, markerWidth),
+          ctx.canvas.width,
+          ctx.canvas.height,
+          pixelRatio,
+        );
+        if (rect) {
+          ctx.putImageData(snapshot, 0, 0, rect.x, rect.y, rect.w, rect.h);
+        }
+      }
+      eraserSnapshotRef.current = null;
+      pptsRef.current = [];
+      smootherRef.current = null;
+      penEraserRef.current = false;
+      previewRef.current = null;
+      endWorkerStroke();
+      // Clears the preview, redrawing a floating selection if there is one
+      showFloating();
     };
 
     const showCursorCircle = (ev: PointerEvent) => {
       // Only a hovering pointer (mouse/pen) gets the size-preview circle; a
       // touch would just park it under the finger.
       if (ev.pointerType === "touch") return;
-      if (cursorCircleRef.current && toolSelection !== "bucket") {
+      if (
+        cursorCircleRef.current &&
+        (toolSelection === "brush" || toolSelection === "eraser")
+      ) {
         cursorCircleRef.current.style.opacity = "1";
       }
     };
+    // The barrel button is a right-click as far as the browser is concerned
+    const preventPenMenu = (ev: MouseEvent) => {
+      if (penEraser && (ev as PointerEvent).pointerType === "pen") {
+        ev.preventDefault();
+      }
+    };
     const hideCursorCircle = () => {
       if (cursorCircleRef.current) cursorCircleRef.current.style.opacity = "0";
     };
 
     const cursorEnd = (ev: PointerEvent) => {
-      if (!drawingRef.current) return;
+      if (endViewGesture(ev) || !drawingRef.current) return;
       drawingRef.current = false;
-      if (tmp_canvas.hasPointerCapture(ev.pointerId)) {
-        tmp_canvas.releasePointerCapture(ev.pointerId);
+      if (stage.hasPointerCapture(ev.pointerId)) {
+        stage.releasePointerCapture(ev.pointerId);
       }
 
+      const penErasing = penEraserRef.current;
+      penEraserRef.current = false;
+
+      if (selectTool && !penErasing) return endSelectTool();
+
       if (!tmp_ctx || !ctx) return;
 
-      if (toolSelection === "eraser") {
-        // Erasure was already committed live in onPaint; just clean up
+      if (shapeKind && !penErasing) {
+        const g = shapeFor(shapeKind, ev);
+        shapeStartRef.current = null;
+        // A click without a drag draws nothing
+        const rect =
+          (g.x0 !== g.x1 || g.y0 !== g.y1) &&
+          rectFromShape(
+            shapeKind,
+            g,
+            markerWidth,
+            ctx.canvas.width,
+            ctx.canvas.height,
+            pixelRatio,
+          );
+        if (!rect) {
+          tmp_ctx.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
+          return;
+        }
+        // Redraw with the pointerup modifiers in case they changed since the
+        // last move
+        previewShape(shapeKind, g);
+        const before = ctx.getImageData(rect.x, rect.y, rect.w, rect.h);
+        compositeLayer(ctx, tmp_canvas, 1, "source-over");
+        tmp_ctx.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
+        record(ctx, rect, before, {
+          type: "shape",
+          layer: activeLayer.id,
+          shape: shapeKind,
+          ...g,
+          style: shapeStyle,
+          color: marker,
+          width: markerWidth,
+          ...(shapeKind === "polygon" && { sides: polygonSides }),
+        });
+        return;
+      }
+
+      if (toolSelection === "gradient" && !penErasing) {
+        const g = gradientFor(ev);
+        const drag = gradientDragRef.current;
+        gradientDragRef.current = null;
+        tmp_ctx.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
+        // A click without a drag draws nothing
+        if (!drag || (g.x0 === g.x1 && g.y0 === g.y1)) return;
+        const op: PaintGradient = {
+          type: "gradient",
+          layer: activeLayer.id,
+          ...g,
+          ...(drag.clip && { clip: gradientClip() }),
+        };
+        // Unclipped, it covers the layer; clipped, its extent is only known
+        // afterwards. Either way keep just the dirty rect for history.
+        const snapshot = ctx.getImageData(
+          0,
+          0,
+          ctx.canvas.width,
+          ctx.canvas.height,
+        );
+        const rect = gradientOp(ctx, op, pixelRatio, fillBackdrop(), () =>
+          sampleMerged(ctx.canvas),
+        );
+        if (rect) record(ctx, rect, cropImageData(snapshot, rect), op);
+        return;
+      }
+
+      // Everything the stroke touched: its points, and any mirrored copies,
+      // padded by the brush's reach
+      const eraser = toolSelection === "eraser" || penErasing;
+      const rect = rectFromPoints(
+        symmetricPoints(pptsRef.current, axes),
+        strokePad(eraser ? roundBrush : brush, pptsRef.current, markerWidth),
+        ctx.canvas.width,
+        ctx.canvas.height,
+        pixelRatio,
+      );
+
+      const op: PaintStroke = {
+        type: "stroke",
+        layer: activeLayer.id,
+        tool: eraser ? "eraser" : "brush",
+        color: marker,
+        width: markerWidth,
+        variable: strokeVariableRef.current,
+        points: pptsRef.current,
+        ...(!eraser && { brush: brush.id }),
+        ...(axes && { symmetry: axes }),
+      };
+      if (recorderRef.current) {
+        const times = pointTimesRef.current;
+        strokeTimesRef.current.set(
+          op,
+          times.map((t) => Math.round(t - times[0])),
+        );
+      }
+
+      const snapshot = eraserSnapshotRef.current;
+      if (eraser && snapshot) {
+        // Erased live a piece at a time; put back the touched pixels and
+        // erase the whole path in one go, exactly as replay will. The
+        // pre-stroke snapshot supplies the before-pixels.
+        if (rect) {
+          ctx.putImageData(snapshot, 0, 0, rect.x, rect.y, rect.w, rect.h);
+          erase(ctx, (c) => eraserBrush.draw(c, eraserStroke()));
+          record(ctx, rect, cropImageData(snapshot, rect), op);
+        }
         eraserSnapshotRef.current = null;
-      } else {
-        ctx.globalCompositeOperation = "source-over";
-        ctx.drawImage(tmp_canvas, 0, 0);
+      } else if (!eraser) {
+        // Drawn whole, as replay will, without any predicted points
+        const preview =
+          previewRef.current ?? createStrokePreview(tmp_ctx, strokeBrush);
+        preview.finish(op);
+        previewRef.current = null;
+        const before = rect && ctx.getImageData(rect.x, rect.y, rect.w, rect.h);
+        compositeLayer(ctx, tmp_canvas, 1, "source-over");
         tmp_ctx.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
+        endWorkerStroke();
+        if (rect && before) record(ctx, rect, before, op);
       }
+      if (rect) onStrokeEndRef.current?.(structuredClone(op));
 
       pptsRef.current = [];
-      cursorRef.current = { x: 0, y: 0, w: markerWidth };
+      smootherRef.current = null;
     };
 
-    const onPaint = () => {
-      if (!tmp_ctx || !ctx) return;
-      pptsRef.current.push({
-        x: cursorRef.current.x,
-        y: cursorRef.current.y,
-        w: cursorRef.current.w,
-      });
+    // The eraser as a round brush stroke, which `erase` turns into erasure
+    const eraserStroke = () => ({
+      points: pptsRef.current,
+      color: "rgba(0,0,0,1)",
+      width: markerWidth,
+      variable: false,
+    });
 
-      if (toolSelection === "eraser") {
-        // Restore the pre-stroke snapshot then redraw the full accumulated path
-        // with destination-out directly on ctx — live transparent erasure.
-        if (eraserSnapshotRef.current) {
-          ctx.putImageData(eraserSnapshotRef.current, 0, 0);
-        }
-        ctx.save();
-        ctx.globalCompositeOperation = "destination-out";
-        ctx.lineWidth = markerWidth;
-        ctx.strokeStyle = "rgba(0,0,0,1)";
-        ctx.fillStyle = "rgba(0,0,0,1)";
-        ctx.lineJoin = "round";
-        ctx.lineCap = "round";
-        drawBezierPath(ctx, pptsRef.current);
-        ctx.restore();
-        return;
-      }
+    const erase = (target: Ctx2D, draw: (ctx: Ctx2D) => void) => {
+      target.save();
+      target.globalCompositeOperation = "destination-out";
+      draw(target);
+      target.restore();
+    };
 
-      // Variable-width pen stroke: redraw the whole path with per-segment widths
-      if (strokeVariableRef.current) {
-        tmp_ctx.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
-        drawVariablePath(tmp_ctx, pptsRef.current);
+    // Draws what the stroke's new points add, plus any `predicted` points on
+    // the preview
+    const onPaint = (predicted: PaintPoint[] = []) => {
+      if (!tmp_ctx || !ctx) return;
+
+      // The eraser works on the layer itself, live, so it never guesses ahead
+      if (erasing()) {
+        const from = erasedRef.current;
+        erase(ctx, (c) => eraserBrush.drawSince!(c, eraserStroke(), from));
+        erasedRef.current = pptsRef.current.length;
         return;
       }
 
-      // Fixed-width stroke: reassert lineWidth every frame so it doesn't inherit
-      // the small per-segment value a preceding variable-width pen stroke left behind.
-      tmp_ctx.lineWidth = markerWidth;
-
-      if (pptsRef.current.length < 3) {
-        const b = pptsRef.current[0];
-        tmp_ctx.beginPath();
-        tmp_ctx.arc(b.x, b.y, tmp_ctx.lineWidth / 2, 0, Math.PI * 2, true);
-        tmp_ctx.fill();
-        tmp_ctx.closePath();
+      const sent = workerSentRef.current;
+      if (sent !== null) {
+        workerRef.current?.worker.postMessage({
+          type: "points",
+          points: pptsRef.current.slice(sent),
+          predicted,
+        } satisfies StrokeWorkerMessage);
+        workerSentRef.current = pptsRef.current.length;
         return;
       }
 
-      tmp_ctx.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
-      drawBezierPath(tmp_ctx, pptsRef.current);
+      previewRef.current?.frame(
+        {
+          points: pptsRef.current,
+          color: marker,
+          width: markerWidth,
+          variable: strokeVariableRef.current,
+        },
+        predicted,
+      );
     };
 
     const handleResize = () => {
-      if (!tmp_ctx || !ctx) return;
-      tmp_ctx.drawImage(canvas, 0, 0);
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-      canvas.width = window.innerWidth;
-      canvas.height = window.innerHeight;
-      ctx.drawImage(tmp_canvas, 0, 0);
-      tmp_ctx.clearRect(0, 0, tmp_canvas.width, tmp_canvas.height);
-      tmp_canvas.width = canvas.width;
-      tmp_canvas.height = canvas.height;
+      const doc = docSize();
+      if (
+        !tmp_ctx ||
+        (tmp_canvas.width === Math.round(doc.width * pixelRatio) &&
+          tmp_canvas.height === Math.round(doc.height * pixelRatio))
+      ) {
+        return;
+      }
+      commitSelection();
+      // Pixel history no longer lines up once the density changes
+      const densityChanged = tmp_ctx.getTransform().a !== pixelRatio;
+      // Resizing a canvas clears it, so every layer is re-rendered from the
+      // document rather than copied, which keeps strokes sharp at any size
+      for (const layerCtx of layerCtxRef.current.values()) {
+        setupCanvas(layerCtx.canvas);
+      }
+      const bgCtx = bgCtxRef.current;
+      if (bgCtx) {
+        setupCanvas(bgCtx.canvas);
+        paintBackground();
+      }
+      const gridCtx = gridCtxRef.current;
+      if (gridCtx) {
+        setupCanvas(gridCtx.canvas);
+        paintGrid();
+      }
+      setupCanvas(tmp_canvas);
+      replayOps(opsRef.current);
+      if (densityChanged) {
+        historyRef.current!.clear();
+        syncHistory();
+      }
       tmp_ctx.lineWidth = markerWidth;
       tmp_ctx.strokeStyle = marker;
       tmp_ctx.fillStyle = marker;
@@ -665,34 +3686,65 @@ const Paint = forwardRef<PaintHandle, PaintProps>(function Paint(
       tmp_ctx.lineCap = "round";
     };
 
+    // A changed `width` / `height` prop or pixel ratio resizes the same way
+    handleResize();
+
+    window.addEventListener("resize", handleResize);
+
     // Pointer Events unify mouse / touch / pen. Capture keeps pointermove
     // firing outside the canvas, so a single move listener replaces the old
-    // add/remove-on-drag trick.
-    window.addEventListener("resize", handleResize);
-    tmp_canvas.addEventListener("pointerdown", cursorStart, false);
-    tmp_canvas.addEventListener("pointermove", cursorMove, false);
-    tmp_canvas.addEventListener("pointerup", cursorEnd, false);
-    tmp_canvas.addEventListener("pointercancel", cursorEnd, false);
-    tmp_canvas.addEventListener("pointerenter", showCursorCircle, false);
-    tmp_canvas.addEventListener("pointerleave", hideCursorCircle, false);
+    // add/remove-on-drag trick. Read-only, the stage takes no input at all.
+    if (!readOnly) {
+      stage.addEventListener("pointerdown", cursorStart, false);
+      stage.addEventListener("pointermove", cursorMove, false);
+      stage.addEventListener("pointerup", cursorEnd, false);
+      stage.addEventListener("pointercancel", cursorEnd, false);
+      // After cursorEnd, so remote ops held back by the stroke follow it
+      stage.addEventListener("pointerup", applyIncoming, false);
+      stage.addEventListener("pointercancel", applyIncoming, false);
+      stage.addEventListener("pointerenter", showCursorCircle, false);
+      stage.addEventListener("pointerleave", hideCursorCircle, false);
+      stage.addEventListener("contextmenu", preventPenMenu, false);
+    }
 
     return () => {
       window.removeEventListener("resize", handleResize, false);
-      tmp_canvas.removeEventListener("pointerdown", cursorStart, false);
-      tmp_canvas.removeEventListener("pointermove", cursorMove, false);
-      tmp_canvas.removeEventListener("pointerup", cursorEnd, false);
-      tmp_canvas.removeEventListener("pointercancel", cursorEnd, false);
-      tmp_canvas.removeEventListener("pointerenter", showCursorCircle, false);
-      tmp_canvas.removeEventListener("pointerleave", hideCursorCircle, false);
+      stage.removeEventListener("pointerdown", cursorStart, false);
+      stage.removeEventListener("pointermove", cursorMove, false);
+      stage.removeEventListener("pointerup", cursorEnd, false);
+      stage.removeEventListener("pointercancel", cursorEnd, false);
+      stage.removeEventListener("pointerup", applyIncoming, false);
+      stage.removeEventListener("pointercancel", applyIncoming, false);
+      stage.removeEventListener("pointerenter", showCursorCircle, false);
+      stage.removeEventListener("pointerleave", hideCursorCircle, false);
+      stage.removeEventListener("contextmenu", preventPenMenu, false);
     };
   }, [
     marker,
     markerWidth,
     fillTolerance,
+    fillOptions,
+    gradientOptions,
+    symmetry,
+    eyedropperRadius,
     toolSelection,
+    shapeStyle,
+    polygonSides,
+    textBox,
+    textOptions,
     pressure,
     minWidthRatio,
-    context,
+    penEraser,
+    smoothing,
+    brushId,
+    activeLayer.id,
+    activeLayer.visible,
+    docKey,
+    width,
+    height,
+    spaceHeld,
+    pixelRatio,
+    readOnly,
     tmp_context,
   ]);
 
@@ -705,13 +3757,57 @@ const Paint = forwardRef<PaintHandle, PaintProps>(function Paint(
     setMarkerWidth,
     toolSelection,
     setToolSelection,
+    brush: brushId,
+    setBrush,
+    brushes: brushList,
+    shapeStyle,
+    setShapeStyle,
+    polygonSides,
+    setPolygonSides,
+    textOptions,
+    setTextOptions,
     customColor,
     setCustomColor,
+    shortcutFor,
+    recentColors,
+    peers,
+    eyedropperRadius,
+    setEyedropperRadius,
     fillTolerance,
     setFillTolerance,
+    fillOptions,
+    setFillOptions,
+    gradientOptions,
+    setGradientOptions,
+    symmetry,
+    setSymmetry,
+    grid,
+    setGrid,
     colors,
     clearCanvas,
     saveImage,
+    undo,
+    redo,
+    canUndo: historyState.canUndo,
+    canRedo: historyState.canRedo,
+    zoom: view.zoom,
+    setZoom,
+    resetView,
+    layers,
+    activeLayerId: activeLayer.id,
+    setActiveLayerId,
+    addLayer,
+    removeLayer,
+    duplicateLayer,
+    mergeLayerDown,
+    moveLayer,
+    updateLayer,
+    hasSelection,
+    commitSelection,
+    cancelSelection,
+    deleteSelection,
+    copySelection,
+    cutSelection,
   };
 
   // ─── Built-in controls ───────────────────────────────────────────────────────
@@ -722,39 +3818,169 @@ const Paint = forwardRef<PaintHandle, PaintProps>(function Paint(
   // Custom picker is active when the current marker isn't one of the preset swatches
   const isCustomActive = colorActive && !colors.includes(marker);
 
+  // With the gradient tool, a picked colour also recolours the selected stop
+  const pickColor = (color: string) => {
+    setMarker(color);
+    if (toolSelection !== "gradient") return;
+    setGradientOptions({
+      stops: gradientOptions.stops.map((s, i) =>
+        i === gradientStop ? { ...s, color } : s,
+      ),
+    });
+  };
+
+  // One of the toolbar's buttons; only the selected tool is a tab stop
+  const toolButton = (tool: PaintTool, icon: ReactNode, className?: string) => (
+    <button
+      key={tool}
+      className={cx(classes.tool, className)}
+      style={{ borderColor: toolSelection === tool ? "#000" : "#CCC" }}
+      data-roving
+      tabIndex={toolSelection === tool ? 0 : -1}
+      aria-pressed={toolSelection === tool}
+      onClick={() => setToolSelection(tool)}
+      title={toolTitle(tool)}
+    >
+      {icon}
+    </button>
+  );
+
   const builtInTopControls = (
-    <div className={cx(classes.control, classNames.control)}>
+    <div
+      className={cx(classes.control, classNames.control)}
+      data-paint-instance={instanceId}
+    >
       {/* Tool selector — independent of colour choice */}
-      <div className={cx(classes.tools, classNames.tools)}>
-        <button
-          className={cx(classes.tool, classNames.brush)}
-          style={{ borderColor: toolSelection === "brush" ? "#000" : "#CCC" }}
-          onClick={() => setToolSelection("brush")}
-          title="Brush"
-        >
-          <IconBrush size={20} />
-        </button>
-        <button
-          className={cx(classes.tool, classNames.bucket)}
-          style={{ borderColor: toolSelection === "bucket" ? "#000" : "#CCC" }}
-          onClick={() => setToolSelection("bucket")}
-          title="Fill"
-        >
-          <IconBucket size={20} />
-        </button>
-        <button
-          className={cx(classes.tool, classNames.eraser)}
-          style={{ borderColor: toolSelection === "eraser" ? "#000" : "#CCC" }}
-          onClick={() => setToolSelection("eraser")}
-          title="Eraser"
-        >
-          <IconEraser size={20} />
-        </button>
+      <div
+        className={cx(classes.tools, classNames.tools)}
+        role="toolbar"
+        aria-label="Tools"
+        onKeyDown={rovingFocus}
+      >
+        {toolButton("brush", <IconBrush size={20} />, classNames.brush)}
+        {toolButton("bucket", <IconBucket size={20} />, classNames.bucket)}
+        {toolButton(
+          "gradient",
+          <IconGradient size={20} />,
+          classNames.gradient,
+        )}
+        {toolButton("eraser", <IconEraser size={20} />, classNames.eraser)}
+        {toolButton(
+          "eyedropper",
+          <IconEyedropper size={20} />,
+          classNames.eyedropper,
+        )}
+        {toolButton("text", <IconText size={20} />, classNames.text)}
+        {toolButton("select", <IconSelect size={20} />, classNames.selection)}
+        {toolButton("lasso", <IconLasso size={20} />, classNames.selection)}
+        {PAINT_SHAPES.map((shape) => {
+          const Icon = SHAPE_ICONS[shape];
+          return toolButton(shape, <Icon size={20} />, classNames.shape);
+        })}
       </div>
 
-      {/* Dynamic slider: size for brush/eraser, tolerance for bucket */}
+      {/* Dynamic slider: size for brush/eraser/shapes, tolerance for bucket,
+          font for text, selection actions for select/lasso */}
       <div className={cx(classes.brushSize, classNames.brushSize)}>
-        {toolSelection === "bucket" ? (
+        {isSelectionTool(toolSelection) ? (
+          <div className={classes.selectionActions}>
+            <button
+              disabled={!hasSelection}
+              title="Copy (Ctrl+C)"
+              onClick={() => copySelection().catch(() => {})}
+            >
+              copy
+            </button>
+            <button
+              disabled={!hasSelection}
+              title="Cut (Ctrl+X)"
+              onClick={() => cutSelection().catch(() => {})}
+            >
+              cut
+            </button>
+            <button
+              disabled={!hasSelection}
+              title="Delete (Del)"
+              onClick={deleteSelection}
+            >
+              delete
+            </button>
+            <button
+              disabled={!hasSelection}
+              title="Apply (Enter)"
+              onClick={commitSelection}
+            >
+              apply
+            </button>
+            <button
+              disabled={!hasSelection}
+              title="Cancel (Esc)"
+              onClick={cancelSelection}
+            >
+              cancel
+            </button>
+          </div>
+        ) : toolSelection === "text" ? (
+          <>
+            <input
+              type="range"
+              id="fontSize"
+              name="fontSize"
+              min="8"
+              max="120"
+              value={textOptions.fontSize}
+              step="1"
+              onChange={(e) =>
+                setTextOptions({ fontSize: Number(e.target.value) })
+              }
+            />
+            <label htmlFor="fontSize">{textOptions.fontSize}px</label>
+            <select
+              value={textOptions.fontFamily}
+              title="Font"
+              onChange={(e) => setTextOptions({ fontFamily: e.target.value })}
+            >
+              {FONT_FAMILIES.includes(textOptions.fontFamily) ? null : (
+                <option value={textOptions.fontFamily}>
+                  {textOptions.fontFamily}
+                </option>
+              )}
+              {FONT_FAMILIES.map((family) => (
+                <option key={family} value={family}>
+                  {family}
+                </option>
+              ))}
+            </select>
+            <button
+              className={classes.textToggle}
+              style={{
+                borderColor: textOptions.fontWeight >= 600 ? "#000" : "#CCC",
+              }}
+              aria-pressed={textOptions.fontWeight >= 600}
+              title="Bold"
+              onClick={() =>
+                setTextOptions({
+                  fontWeight: textOptions.fontWeight >= 600 ? 400 : 700,
+                })
+              }
+            >
+              B
+            </button>
+            <select
+              value={textOptions.align}
+              title="Alignment"
+              onChange={(e) =>
+                setTextOptions({
+                  align: e.target.value as PaintTextOptions["align"],
+                })
+              }
+            >
+              <option value="left">left</option>
+              <option value="center">centre</option>
+              <option value="right">right</option>
+            </select>
+          </>
+        ) : toolSelection === "bucket" ? (
           <>
             <input
               type="range"
@@ -769,6 +3995,192 @@ const Paint = forwardRef<PaintHandle, PaintProps>(function Paint(
             <label htmlFor="fillTolerance">
               {Math.round((fillTolerance / 255) * 100)}%
             </label>
+            <select
+              value={fillOptions.mode}
+              title="Fill mode"
+              onChange={(e) =>
+                setFillOptions({
+                  mode: e.target.value as PaintFillOptions["mode"],
+                })
+              }
+            >
+              <option value="contiguous">contiguous</option>
+              <option value="global">global</option>
+            </select>
+            <select
+              value={fillOptions.sample}
+              title="Sample"
+              onChange={(e) =>
+                setFillOptions({
+                  sample: e.target.value as PaintFillOptions["sample"],
+                })
+              }
+            >
+              <option value="layer">this layer</option>
+              <option value="merged">all layers</option>
+            </select>
+            <select
+              value={fillPaintName(fillOptions.paint)}
+              title="Fill with"
+              onChange={(e) =>
+                setFillOptions({ paint: FILL_PAINTS[e.target.value] ?? null })
+              }
+            >
+              <option value="solid">solid</option>
+              {fillOptions.paint?.type === "image" && (
+                <option value="image">image</option>
+              )}
+              {Object.keys(FILL_PAINTS).map((name) => (
+                <option key={name} value={name}>
+                  {name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={fillOptions.gap}
+              title="Close gaps"
+              onChange={(e) => setFillOptions({ gap: Number(e.target.value) })}
+            >
+              {[0, 2, 4, 8, 16].map((gap) => (
+                <option key={gap} value={gap}>
+                  {gap ? `gaps ≤ ${gap}px` : "no gap closing"}
+                </option>
+              ))}
+            </select>
+            <button
+              className={classes.textToggle}
+              style={{ borderColor: fillOptions.antialias ? "#000" : "#CCC" }}
+              aria-pressed={fillOptions.antialias}
+              title="Smooth edges"
+              onClick={() =>
+                setFillOptions({ antialias: !fillOptions.antialias })
+              }
+            >
+              AA
+            </button>
+            <button
+              className={classes.textToggle}
+              style={{
+                borderColor:
+                  fillOptions.distance === "perceptual" ? "#000" : "#CCC",
+              }}
+              aria-pressed={fillOptions.distance === "perceptual"}
+              title="Compare colours as the eye sees them"
+              onClick={() =>
+                setFillOptions({
+                  distance:
+                    fillOptions.distance === "perceptual"
+                      ? "channel"
+                      : "perceptual",
+                })
+              }
+            >
+              Δ
+            </button>
+          </>
+        ) : toolSelection === "eyedropper" ? (
+          <select
+            value={eyedropperRadius}
+            title="Sample size"
+            onChange={(e) => setEyedropperRadius(Number(e.target.value))}
+          >
+            {[0, 1, 2, 5].map((r) => (
+              <option key={r} value={r}>
+                {r ? `${r * 2 + 1}px average` : "point sample"}
+              </option>
+            ))}
+          </select>
+        ) : toolSelection === "gradient" ? (
+          <>
+            <select
+              value={gradientOptions.kind}
+              title="Gradient"
+              onChange={(e) =>
+                setGradientOptions({
+                  kind: e.target.value as PaintGradientKind,
+                })
+              }
+            >
+              {PAINT_GRADIENT_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {kind}
+                </option>
+              ))}
+            </select>
+            {/* Click the bar to add a stop in the current colour, drag a
+                stop to move it, pick a colour to recolour the selected one */}
+            <div
+              className={classes.gradientStops}
+              style={{ background: cssGradient(gradientOptions.stops) }}
+              title="Colour stops"
+              onPointerDown={(e) => {
+                if (e.target !== e.currentTarget) return;
+                const r = e.currentTarget.getBoundingClientRect();
+                const offset = (e.clientX - r.left) / r.width;
+                setGradientStop(gradientOptions.stops.length);
+                setGradientOptions({
+                  stops: [...gradientOptions.stops, { offset, color: marker }],
+                });
+              }}
+            >
+              {gradientOptions.stops.map((stop, i) => (
+                <button
+                  key={i}
+                  className={classes.gradientStop}
+                  style={{
+                    left: `${stop.offset * 100}%`,
+                    backgroundColor: stop.color,
+                    borderColor: i === gradientStop ? "#000" : "#CCC",
+                  }}
+                  aria-pressed={i === gradientStop}
+                  title={`Stop ${i + 1}`}
+                  onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    setGradientStop(i);
+                  }}
+                  onPointerMove={(e) => {
+                    if (!e.currentTarget.hasPointerCapture(e.pointerId)) return;
+                    const bar = e.currentTarget.parentElement!;
+                    const r = bar.getBoundingClientRect();
+                    const offset = Math.min(
+                      1,
+                      Math.max(0, (e.clientX - r.left) / r.width),
+                    );
+                    setGradientOptions({
+                      stops: gradientOptions.stops.map((s, j) =>
+                        j === i ? { ...s, offset } : s,
+                      ),
+                    });
+                  }}
+                />
+              ))}
+            </div>
+            <button
+              className={classes.textToggle}
+              disabled={gradientOptions.stops.length <= 2}
+              title="Remove stop"
+              onClick={() => {
+                setGradientOptions({
+                  stops: gradientOptions.stops.filter(
+                    (_, j) => j !== gradientStop,
+                  ),
+                });
+                setGradientStop(0);
+              }}
+            >
+              −
+            </button>
+            <button
+              className={classes.textToggle}
+              style={{ borderColor: gradientOptions.clip ? "#000" : "#CCC" }}
+              aria-pressed={gradientOptions.clip}
+              title="Clip to the region a fill would take"
+              onClick={() =>
+                setGradientOptions({ clip: !gradientOptions.clip })
+              }
+            >
+              ◩
+            </button>
           </>
         ) : (
           <>
@@ -776,19 +4188,171 @@ const Paint = forwardRef<PaintHandle, PaintProps>(function Paint(
               type="range"
               id="brushSize"
               name="brushSize"
-              min="4"
-              max="100"
+              min={BRUSH_SIZE_RANGE.min}
+              max={BRUSH_SIZE_RANGE.max}
               value={markerWidth}
-              step="2"
+              step={BRUSH_SIZE_RANGE.step}
               onChange={(e) => setMarkerWidth(Number(e.target.value))}
             />
             <label htmlFor="brushSize">{markerWidth}px</label>
           </>
         )}
+        {(toolSelection === "rect" ||
+          toolSelection === "ellipse" ||
+          toolSelection === "polygon") && (
+          <select
+            value={shapeStyle}
+            title="Shape style"
+            onChange={(e) => setShapeStyle(e.target.value as PaintShapeStyle)}
+          >
+            <option value="stroke">outline</option>
+            <option value="fill">fill</option>
+            <option value="both">fill + outline</option>
+          </select>
+        )}
+        {toolSelection === "brush" && (
+          <select
+            value={brushId}
+            title="Brush"
+            onChange={(e) => setBrush(e.target.value)}
+          >
+            {brushList.map((brush) => (
+              <option key={brush.id} value={brush.id}>
+                {brush.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {toolSelection === "polygon" && (
+          <input
+            type="number"
+            min="3"
+            max="12"
+            value={polygonSides}
+            title="Sides"
+            onChange={(e) =>
+              setPolygonSides(Math.max(3, Number(e.target.value) || 3))
+            }
+          />
+        )}
+        {(toolSelection === "brush" || toolSelection === "eraser") && (
+          <>
+            <select
+              value={symmetry.mode}
+              title="Symmetry"
+              onChange={(e) =>
+                setSymmetry({ mode: e.target.value as PaintSymmetryMode })
+              }
+            >
+              {PAINT_SYMMETRY_MODES.map((mode) => (
+                <option key={mode} value={mode}>
+                  {mode === "none" ? "no symmetry" : mode}
+                </option>
+              ))}
+            </select>
+            {symmetry.mode === "radial" && (
+              <>
+                <input
+                  type="number"
+                  min="2"
+                  max="24"
+                  value={symmetry.count}
+                  title="Copies"
+                  onChange={(e) =>
+                    setSymmetry({
+                      count: Math.max(2, Number(e.target.value) || 2),
+                    })
+                  }
+                />
+                <button
+                  className={classes.textToggle}
+                  style={{ borderColor: symmetry.mirror ? "#000" : "#CCC" }}
+                  aria-pressed={symmetry.mirror}
+                  title="Mirror each copy"
+                  onClick={() => setSymmetry({ mirror: !symmetry.mirror })}
+                >
+                  ⧓
+                </button>
+              </>
+            )}
+            {symmetry.mode !== "none" && (
+              <button
+                className={classes.textToggle}
+                style={{ borderColor: symmetry.guides ? "#000" : "#CCC" }}
+                aria-pressed={symmetry.guides}
+                title="Show symmetry guides"
+                onClick={() => setSymmetry({ guides: !symmetry.guides })}
+              >
+                ✳
+              </button>
+            )}
+          </>
+        )}
+        <button
+          className={classes.textToggle}
+          style={{ borderColor: grid.show ? "#000" : "#CCC" }}
+          aria-pressed={grid.show}
+          title="Show grid"
+          onClick={() => setGrid({ show: !grid.show })}
+        >
+          ▦
+        </button>
+        {grid.show && (
+          <>
+            <select
+              value={grid.kind}
+              title="Grid"
+              onChange={(e) =>
+                setGrid({ kind: e.target.value as PaintGridKind })
+              }
+            >
+              {PAINT_GRID_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {kind}
+                </option>
+              ))}
+            </select>
+            <input
+              type="number"
+              min="4"
+              max="200"
+              value={grid.spacing}
+              title="Grid spacing"
+              onChange={(e) =>
+                setGrid({ spacing: Math.max(4, Number(e.target.value) || 4) })
+              }
+            />
+          </>
+        )}
+        <button
+          className={classes.textToggle}
+          style={{ borderColor: grid.rulers ? "#000" : "#CCC" }}
+          aria-pressed={grid.rulers}
+          title="Show rulers and guides"
+          onClick={() => setGrid({ rulers: !grid.rulers })}
+        >
+          ⊢
+        </button>
+        {(grid.show || grid.rulers) && isShapeTool(toolSelection) && (
+          <button
+            className={classes.textToggle}
+            style={{ borderColor: grid.snap ? "#000" : "#CCC" }}
+            aria-pressed={grid.snap}
+            title="Snap to grid and guides"
+            onClick={() => setGrid({ snap: !grid.snap })}
+          >
+            ⌖
+          </button>
+        )}
       </div>
 
-      {/* Colour palette */}
-      <div className={cx(classes.colors, classNames.colors)}>
+      {/* Colour palette — the current colour is its tab stop */}
+      <div
+        className={cx(classes.colors, classNames.colors)}
+        role="toolbar"
+        aria-label="Colours"
+        onKeyDown={rovingFocus}
+      >
         {colors.map((color, i) => (
           <button
             key={i}
@@ -797,7 +4361,12 @@ const Paint = forwardRef<PaintHandle, PaintProps>(function Paint(
               borderColor: colorActive && marker === color ? "#000" : "#CCC",
               backgroundColor: color,
             }}
-            onClick={() => setMarker(color)}
+            data-roving
+            tabIndex={i === colors.indexOf(marker) ? 0 : -1}
+            aria-pressed={marker === color}
+            aria-label={`Colour ${color}`}
+            title={shortcutFor(`color:${i + 1}`)}
+            onClick={() => pickColor(color)}
           />
         ))}
 
@@ -807,9 +4376,12 @@ const Paint = forwardRef<PaintHandle, PaintProps>(function Paint(
             type="color"
             name="custClr"
             defaultValue={customColor}
+            data-roving
+            tabIndex={isCustomActive ? 0 : -1}
+            aria-label="Custom colour"
             style={{ borderColor: isCustomActive ? "#000" : "#CCC" }}
             onChange={(e) => {
-              setMarker(e.target.value);
+              pickColor(e.target.value);
               setCustomColor(e.target.value);
             }}
           />
@@ -818,12 +4390,66 @@ const Paint = forwardRef<PaintHandle, PaintProps>(function Paint(
             color={colorBrightness(customColor) === "dark" ? "white" : "black"}
           />
         </div>
+
+        {recentColors.length > 0 && (
+          <div
+            className={cx(classes.recentColors, classNames.recentColors)}
+            role="group"
+            aria-label="Recent colours"
+          >
+            {recentColors.map((color) => (
+              <button
+                key={color}
+                className={classes.recentClr}
+                style={{
+                  borderColor: marker === color ? "#000" : "#CCC",
+                  backgroundColor: color,
+                }}
+                data-roving
+                tabIndex={-1}
+                aria-pressed={marker === color}
+                aria-label={`Recent colour ${color}`}
+                title={color}
+                onClick={() => pickColor(color)}
+              />
+            ))}
+          </div>
+        )}
       </div>
     </div>
   );
 
   const builtInBottomControls = (
-    <div className={cx(classes.bottomControl, classNames.bottomControl)}>
+    <div
+      className={cx(classes.bottomControl, classNames.bottomControl)}
+      data-paint-instance={instanceId}
+    >
+      <button
+        className={cx(
+          classes.btn,
+          classes.btnHistory,
+          classNames.btn,
+          classNames.btnUndo,
+        )}
+        onClick={undo}
+        disabled={!historyState.canUndo}
+        title="Undo (Ctrl+Z)"
+      >
+        <IconUndo size={18} />
+      </button>
+      <button
+        className={cx(
+          classes.btn,
+          classes.btnHistory,
+          classNames.btn,
+          classNames.btnRedo,
+        )}
+        onClick={redo}
+        disabled={!historyState.canRedo}
+        title="Redo (Ctrl+Shift+Z)"
+      >
+        <IconRedo size={18} />
+      </button>
       <button
         className={cx(
           classes.btn,
@@ -842,16 +4468,139 @@ const Paint = forwardRef<PaintHandle, PaintProps>(function Paint(
           classNames.btn,
           classNames.btnSave,
         )}
-        onClick={saveImage}
+        onClick={() => saveImage()}
       >
         save
       </button>
     </div>
   );
 
+  // Listed top → bottom like most editors; drag a row onto another to move it
+  // to that row's position in the stack.
+  const activeIndex = layers.indexOf(activeLayer);
+  const builtInLayersPanel = (
+    <div
+      className={cx(classes.layers, classNames.layers)}
+      data-paint-instance={instanceId}
+    >
+      <ul className={classes.layerList}>
+        {[...layers].reverse().map((layer) => (
+          <li
+            key={layer.id}
+            className={cx(
+              classes.layerItem,
+              layer === activeLayer ? classes.layerActive : undefined,
+            )}
+            draggable
+            onDragStart={() => (dragLayerRef.current = layer.id)}
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragLayerRef.current) {
+                moveLayer(dragLayerRef.current, layers.indexOf(layer));
+              }
+              dragLayerRef.current = null;
+            }}
+            onClick={() => setActiveLayerId(layer.id)}
+          >
+            <button
+              className={classes.layerVisibility}
+              title={layer.visible ? "Hide layer" : "Show layer"}
+              onClick={(e) => {
+                e.stopPropagation();
+                updateLayer(layer.id, { visible: !layer.visible });
+              }}
+            >
+              {layer.visible ? <IconEye size={16} /> : <IconEyeOff size={16} />}
+            </button>
+            <span className={classes.layerName}>{layer.name}</span>
+          </li>
+        ))}
+      </ul>
+
+      <div className={classes.layerProps}>
+        <input
+          type="range"
+          id="layerOpacity"
+          name="layerOpacity"
+          min="0"
+          max="100"
+          value={Math.round(activeLayer.opacity * 100)}
+          step="1"
+          onChange={(e) =>
+            updateLayer(activeLayer.id, {
+              opacity: Number(e.target.value) / 100,
+            })
+          }
+        />
+        <label htmlFor="layerOpacity">
+          {Math.round(activeLayer.opacity * 100)}%
+        </label>
+        <select
+          value={activeLayer.blendMode}
+          title="Blend mode"
+          onChange={(e) =>
+            updateLayer(activeLayer.id, {
+              blendMode: e.target.value as PaintLayer["blendMode"],
+            })
+          }
+        >
+          {PAINT_BLEND_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {cssBlendMode(mode)}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className={classes.layerActions}>
+        <button title="Add layer" onClick={addLayer}>
+          <IconPlus size={16} />
+        </button>
+        <button
+          title="Duplicate layer"
+          onClick={() => duplicateLayer(activeLayer.id)}
+        >
+          <IconCopy size={16} />
+        </button>
+        <button
+          title="Merge down"
+          disabled={activeIndex < 1}
+          onClick={() => mergeLayerDown(activeLayer.id)}
+        >
+          <IconMergeDown size={16} />
+        </button>
+        <button
+          title="Delete layer"
+          disabled={layers.length <= 1}
+          onClick={() => removeLayer(activeLayer.id)}
+        >
+          <IconTrash size={16} />
+        </button>
+      </div>
+    </div>
+  );
+
   // ─── Render ──────────────────────────────────────────────────────────────────
 
-  const showBuiltInControls = controls && !renderControls;
+  const showBuiltInControls = controls && !renderControls && !readOnly;
+  // Ruler guides, which are moved by dragging them
+  const showGuides = grid.rulers && !readOnly;
+
+  // Symmetry guides, shown while the brush or eraser is out
+  const doc = docSize();
+  const guideAxes =
+    !readOnly &&
+    symmetry.guides &&
+    (toolSelection === "brush" || toolSelection === "eraser")
+      ? symmetryAxes(symmetry, doc.width, doc.height)
+      : null;
+  // Long enough to cross the document from anywhere
+  const guideReach = doc.width + doc.height;
+
+  // Ruler ticks a grid space apart, spread out when zoomed far out
+  let rulerStep = Math.max(2, grid.spacing) * view.zoom;
+  while (rulerStep < 8) rulerStep *= 2;
 
   return (
     <>
@@ -859,19 +4608,221 @@ const Paint = forwardRef<PaintHandle, PaintProps>(function Paint(
         ? renderControls(paintState)
         : showBuiltInControls && builtInTopControls}
 
-      <canvas className={classes.canvas} ref={canvas_ref} />
-      <canvas
-        className={classes.canvas}
-        ref={tmp_canvas_ref}
-        style={{ cursor: toolSelection === "bucket" ? "crosshair" : "none" }}
-      />
+      {/* The stage fills the component and takes all pointer input; the
+          viewport inside it holds the document and is zoomed / panned */}
+      <div
+        ref={stageRef}
+        className={classes.stage}
+        data-paint-instance={instanceId}
+        style={{
+          cursor: readOnly
+            ? undefined
+            : spaceHeld
+              ? "grab"
+              : toolCursor(toolSelection),
+        }}
+        role="group"
+        aria-label="Canvas"
+        aria-roledescription="canvas"
+      >
+        <div className={classes.srOnly} role="status" aria-live="polite">
+          {announcement}
+        </div>
+        <div
+          className={classes.viewport}
+          style={{
+            transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+          }}
+        >
+          <canvas className={classes.canvas} ref={attachBackgroundCanvas} />
+          {layers.map((layer) => (
+            <canvas
+              key={`${docKey}:${layer.id}`}
+              className={classes.canvas}
+              ref={(el) => attachLayerCanvas(layer.id, el)}
+              style={{
+                opacity: layer.opacity,
+                mixBlendMode: cssBlendMode(layer.blendMode),
+                visibility: layer.visible ? undefined : "hidden",
+              }}
+            />
+          ))}
+          {/* In-progress strokes preview with the active layer's opacity/blend */}
+          <canvas
+            className={classes.canvas}
+            ref={tmp_canvas_ref}
+            style={{
+              opacity: activeLayer.opacity,
+              mixBlendMode: cssBlendMode(activeLayer.blendMode),
+            }}
+          />
+          <canvas
+            className={classes.canvas}
+            ref={attachGridCanvas}
+            aria-hidden="true"
+          />
+          {showGuides &&
+            grid.guides.map((guide, i) => (
+              <div
+                key={i}
+                data-paint-guide
+                className={
+                  guide.orientation === "vertical"
+                    ? classes.guideVertical
+                    : classes.guideHorizontal
+                }
+                title="Guide. Drag onto the ruler or double-click to remove."
+                style={
+                  guide.orientation === "vertical"
+                    ? {
+                        left: guide.position,
+                        height: doc.height,
+                        transform: `translateX(-50%) scaleX(${1 / view.zoom})`,
+                      }
+                    : {
+                        top: guide.position,
+                        width: doc.width,
+                        transform: `translateY(-50%) scaleY(${1 / view.zoom})`,
+                      }
+                }
+                onPointerDown={(e) => grabGuide(e, guide.orientation, i)}
+                onPointerMove={(e) => dragGuide(e, guide.orientation)}
+                onPointerUp={(e) => dropGuide(e, guide.orientation)}
+                onDoubleClick={() => removeGuide(i)}
+              />
+            ))}
+          {guideAxes && (
+            <>
+              <svg
+                className={classes.symmetryGuides}
+                width={doc.width}
+                height={doc.height}
+                aria-hidden="true"
+              >
+                {symmetryGuideAngles(guideAxes).map((angle) => (
+                  <line
+                    key={angle}
+                    x1={guideAxes.x}
+                    y1={guideAxes.y}
+                    x2={guideAxes.x + Math.cos(angle) * guideReach}
+                    y2={guideAxes.y + Math.sin(angle) * guideReach}
+                    stroke="rgba(0, 160, 255, 0.7)"
+                    strokeDasharray="6 4"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                ))}
+              </svg>
+              <div
+                data-symmetry-centre
+                className={classes.symmetryCentre}
+                title="Symmetry centre. Double-click to reset."
+                style={{
+                  left: guideAxes.x,
+                  top: guideAxes.y,
+                  transform: `translate(-50%, -50%) scale(${1 / view.zoom})`,
+                }}
+                onPointerDown={(e) =>
+                  e.currentTarget.setPointerCapture(e.pointerId)
+                }
+                onPointerMove={moveSymmetryCentre}
+                onDoubleClick={() => setSymmetry({ center: null })}
+              />
+            </>
+          )}
+          {peers.map(
+            (peer) =>
+              peer.cursor && (
+                <div
+                  key={peer.id}
+                  className={cx(classes.remoteCursor, classNames.remoteCursor)}
+                  style={{
+                    left: peer.cursor.x,
+                    top: peer.cursor.y,
+                    color: peer.color,
+                    transform: `scale(${1 / view.zoom})`,
+                  }}
+                  aria-hidden="true"
+                >
+                  {peer.name}
+                </div>
+              ),
+          )}
+          {textBox && (
+            <textarea
+              key={`${textBox.x},${textBox.y}`}
+              ref={textAreaRef}
+              className={cx(classes.textBox, classNames.textBox)}
+              aria-label="Text. Ctrl+Enter to place, Escape to cancel."
+              autoFocus
+              rows={1}
+              spellCheck={false}
+              style={{
+                left: textBox.x,
+                top: textBox.y,
+                transform:
+                  textOptions.align === "center"
+                    ? "translateX(-50%)"
+                    : textOptions.align === "right"
+                      ? "translateX(-100%)"
+                      : undefined,
+                font: cssFont(textOptions),
+                lineHeight: TEXT_LINE_HEIGHT,
+                textAlign: textOptions.align,
+                color: marker,
+              }}
+              onInput={fitTextBox}
+              onKeyDown={(e) => {
+                if (e.key === "Escape") {
+                  e.preventDefault();
+                  setTextBox(null);
+                } else if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) {
+                  e.preventDefault();
+                  commitText();
+                }
+              }}
+            />
+          )}
+        </div>
+        {showGuides && (
+          <>
+            <div
+              data-paint-guide
+              className={cx(classes.rulerTop, classNames.ruler)}
+              title="Drag down to add a guide"
+              style={{
+                backgroundSize: `${rulerStep}px 100%`,
+                backgroundPosition: `${view.x}px 0`,
+              }}
+              onPointerDown={(e) => grabGuide(e, "horizontal")}
+              onPointerMove={(e) => dragGuide(e, "horizontal")}
+              onPointerUp={(e) => dropGuide(e, "horizontal")}
+            />
+            <div
+              data-paint-guide
+              className={cx(classes.rulerLeft, classNames.ruler)}
+              title="Drag right to add a guide"
+              style={{
+                backgroundSize: `100% ${rulerStep}px`,
+                backgroundPosition: `0 ${view.y}px`,
+              }}
+              onPointerDown={(e) => grabGuide(e, "vertical")}
+              onPointerMove={(e) => dragGuide(e, "vertical")}
+              onPointerUp={(e) => dropGuide(e, "vertical")}
+            />
+          </>
+        )}
+      </div>
       {/* Brush/eraser size preview — position updated via DOM, no re-renders */}
       <div
         ref={cursorCircleRef}
         className={classes.cursorCircle}
-        style={{ width: markerWidth, height: markerWidth }}
+        style={{
+          width: markerWidth * view.zoom,
+          height: markerWidth * view.zoom,
+        }}
       />
 
+      {layersPanel && !renderControls && !readOnly && builtInLayersPanel}
       {showBuiltInControls && builtInBottomControls}
     </>
   );
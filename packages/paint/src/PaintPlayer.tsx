@@ -0,0 +1,300 @@
+"use client";
+
+import {
+  forwardRef,
+  useEffect,
+  useImperativeHandle,
+  useRef,
+  useState,
+} from "react";
+import classes from "./Paint.module.css";
+import type { Brush } from "./brushes";
+import { IconPause, IconPlay } from "./icons";
+import {
+  createTimelapse,
+  recordTimelapseVideo,
+  type PaintRecording,
+  type Timelapse,
+  type TimelapseVideoOptions,
+} from "./recording";
+
+const cx = (...args: (string | undefined)[]) => args.filter(Boolean).join(" ");
+
+const SPEEDS = [0.5, 1, 2, 4, 8, 16];
+
+// m:ss
+const formatTime = (ms: number) => {
+  const s = Math.floor(ms / 1000);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+};
+
+/** Imperative handle exposed via ref. */
+export type PaintPlayerHandle = {
+  play(): void;
+  pause(): void;
+  /** Jumps to `time` ms into the timelapse. */
+  seek(time: number): void;
+  /**
+   * Records the timelapse as a video (WebM unless `mimeType` says otherwise),
+   * at the player's speed unless `speed` is given. Takes the timelapse's
+   * length divided by the speed.
+   */
+  exportVideo(options?: TimelapseVideoOptions): Promise<Blob>;
+};
+
+export type PaintPlayerProps = {
+  /** From `PaintHandle.stopRecording()`. */
+  recording: PaintRecording;
+  /**
+   * Initial playback speed, times as fast as it was drawn.
+   * @default 1
+   */
+  speed?: number;
+  /** Start playing once the recording has loaded. */
+  autoPlay?: boolean;
+  /**
+   * Longest pause kept between changes, in ms; longer ones are cut to this.
+   * @default 1000
+   */
+  maxGap?: number;
+  /**
+   * Show play / pause, the position slider, speed and the video button.
+   * @default true
+   */
+  controls?: boolean;
+  /** Applied to the wrapper. */
+  className?: string;
+  /** The `brushes` given to the `Paint` that made the recording. */
+  brushes?: Brush[];
+  /**
+   * Receives the video from the built-in button instead of it being
+   * downloaded as `timelapse.webm`.
+   */
+  onSaveVideo?: (blob: Blob) => void;
+  /**
+   * Called when the recording can't be loaded (e.g. an image in it won't
+   * decode) or the built-in button can't record a video. The player shows
+   * a message either way; logged to the console when unset.
+   */
+  onError?: (error: unknown) => void;
+};
+
+/**
+ * Plays a recording from `Paint` back as a timelapse on a read-only canvas,
+ * with play, pause, scrubbing and speed controls.
+ */
+const PaintPlayer = forwardRef<PaintPlayerHandle, PaintPlayerProps>(
+  function PaintPlayer(
+    {
+      recording,
+      speed: speedProp = 1,
+      autoPlay = false,
+      maxGap = 1000,
+      controls = true,
+      className,
+      brushes,
+      onSaveVideo,
+      onError,
+    },
+    ref,
+  ) {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [timelapse, setTimelapse] = useState<Timelapse | null>(null);
+    const [time, setTime] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const [speed, setSpeed] = useState(speedProp);
+    const [exporting, setExporting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const onErrorRef = useRef(onError);
+    onErrorRef.current = onError;
+    // Read by the animation loop, which outlives renders
+    const timeRef = useRef(0);
+    timeRef.current = time;
+    // Reloaded for other brushes, not for the same ones in a new array
+    const brushesRef = useRef(brushes);
+    brushesRef.current = brushes;
+    const brushIds = brushes?.map((b) => b.id).join("\n") ?? "";
+
+    const { width, height } = recording.document;
+
+    function reportError(message: string, cause: unknown) {
+      setError(message);
+      if (onErrorRef.current) onErrorRef.current(cause);
+      else console.error(cause);
+    }
+
+    // Rendered at the device pixel ratio, from the start
+    useEffect(() => {
+      let cancelled = false;
+      setTimelapse(null);
+      setTime(0);
+      setPlaying(false);
+      setError(null);
+      createTimelapse(recording, {
+        maxGap,
+        brushes: brushesRef.current,
+        scale: window.devicePixelRatio || 1,
+      })
+        .then((t) => {
+          if (cancelled) return;
+          setTimelapse(t);
+          setPlaying(autoPlay);
+        })
+        .catch((e) => {
+          if (!cancelled) reportError("The timelapse couldn't be loaded.", e);
+        });
+      return () => {
+        cancelled = true;
+      };
+    }, [recording, maxGap, brushIds]);
+
+    useEffect(() => {
+      const canvas = canvasRef.current;
+      if (!canvas || !timelapse) return;
+      canvas.width = timelapse.width;
+      canvas.height = timelapse.height;
+    }, [timelapse]);
+
+    useEffect(() => {
+      const ctx = canvasRef.current?.getContext("2d");
+      if (ctx && timelapse) timelapse.draw(ctx, time);
+    }, [timelapse, time]);
+
+    // Moves the position on by the time since the last frame, sped up
+    useEffect(() => {
+      if (!playing || !timelapse) return;
+      let frame = 0;
+      let last = performance.now();
+      const tick = (now: number) => {
+        const next = Math.min(
+          timelapse.duration,
+          timeRef.current + (now - last) * speed,
+        );
+        last = now;
+        setTime(next);
+        if (next >= timelapse.duration) setPlaying(false);
+        else frame = requestAnimationFrame(tick);
+      };
+      frame = requestAnimationFrame(tick);
+      return () => cancelAnimationFrame(frame);
+    }, [playing, timelapse, speed]);
+
+    function play() {
+      // From the start again once it's finished
+      if (timelapse && timeRef.current >= timelapse.duration) setTime(0);
+      setPlaying(true);
+    }
+
+    function seek(t: number) {
+      setTime(Math.max(0, Math.min(timelapse?.duration ?? 0, t)));
+    }
+
+    function exportVideo(options: TimelapseVideoOptions = {}) {
+      return recordTimelapseVideo(recording, {
+        maxGap,
+        speed,
+        brushes,
+        ...options,
+      });
+    }
+
+    async function saveVideo() {
+      setExporting(true);
+      setError(null);
+      try {
+        const blob = await exportVideo();
+        if (onSaveVideo) {
+          onSaveVideo(blob);
+          return;
+        }
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = "timelapse.webm";
+        a.click();
+        a.remove();
+        // Revoking synchronously can cancel the download in some browsers
+        setTimeout(() => URL.revokeObjectURL(url));
+      } catch (e) {
+        const reason = e instanceof Error ? ` ${e.message}` : "";
+        reportError(`The video couldn't be recorded.${reason}`, e);
+      } finally {
+        setExporting(false);
+      }
+    }
+
+    useImperativeHandle(ref, () => ({
+      play,
+      pause: () => setPlaying(false),
+      seek,
+      exportVideo,
+    }));
+
+    const duration = timelapse?.duration ?? 0;
+
+    return (
+      <div className={cx(classes.player, className)}>
+        <canvas
+          ref={canvasRef}
+          className={classes.playerCanvas}
+          style={{ width, aspectRatio: `${width} / ${height}` }}
+          role="img"
+          aria-label="Drawing timelapse"
+        />
+        {error && (
+          <p className={classes.playerError} role="alert">
+            {error}
+          </p>
+        )}
+        {controls && (
+          <div className={classes.playerControls}>
+            <button
+              className={classes.tool}
+              disabled={!timelapse}
+              aria-label={playing ? "Pause" : "Play"}
+              title={playing ? "Pause" : "Play"}
+              onClick={() => (playing ? setPlaying(false) : play())}
+            >
+              {playing ? <IconPause /> : <IconPlay />}
+            </button>
+            <input
+              type="range"
+              min={0}
+              max={duration}
+              step={1}
+              value={time}
+              disabled={!timelapse}
+              aria-label="Position"
+              aria-valuetext={formatTime(time)}
+              onChange={(e) => seek(Number(e.target.value))}
+            />
+            <span className={classes.playerTime}>
+              {formatTime(time)} / {formatTime(duration)}
+            </span>
+            <select
+              value={speed}
+              title="Speed"
+              onChange={(e) => setSpeed(Number(e.target.value))}
+            >
+              {SPEEDS.map((s) => (
+                <option key={s} value={s}>
+                  {s}×
+                </option>
+              ))}
+            </select>
+            <button
+              className={cx(classes.btn, classes.btnSave)}
+              disabled={!timelapse || exporting}
+              title="Save as a video, played through at this speed"
+              onClick={saveVideo}
+            >
+              {exporting ? "Recording…" : "Video"}
+            </button>
+          </div>
+        )}
+      </div>
+    );
+  },
+);
+
+export default PaintPlayer;
@@ -0,0 +1,64 @@
+import type { Ctx2D } from "./draw";
+
+/**
+ * How a background image is placed on the canvas: scaled to fit inside it
+ * (letterboxed), scaled to cover it (cropped), or unscaled and centred.
+ */
+export type PaintBackgroundFit = "fit" | "fill" | "center";
+
+/** A URL (including data URLs), a Blob or an already-decoded bitmap. */
+export type PaintImageSource = string | Blob | ImageBitmap;
+
+/** Decodes a URL (including data URLs) or Blob; bitmaps pass straight through. */
+export async function decodeImage(source: PaintImageSource) {
+  if (typeof source !== "string" && !(source instanceof Blob)) return source;
+  const blob =
+    typeof source === "string"
+      ? await fetch(source).then((r) => {
+          if (!r.ok) throw new Error(`Failed to load image: ${source}`);
+          return r.blob();
+        })
+      : source;
+  return createImageBitmap(blob);
+}
+
+/** Where an `iw` × `ih` image lands on a `cw` × `ch` canvas for a fit mode. */
+export function backgroundPlacement(
+  iw: number,
+  ih: number,
+  cw: number,
+  ch: number,
+  fit: PaintBackgroundFit,
+) {
+  const k =
+    fit === "center"
+      ? 1
+      : fit === "fit"
+        ? Math.min(cw / iw, ch / ih)
+        : Math.max(cw / iw, ch / ih);
+  const w = iw * k;
+  const h = ih * k;
+  return { x: (cw - w) / 2, y: (ch - h) / 2, w, h };
+}
+
+/** Where a background sits on the canvas, in document units. */
+export type BackgroundPlacement = ReturnType<typeof backgroundPlacement>;
+
+/**
+ * Clears `ctx` and draws `image` at `placement`. `scale` maps document units
+ * to canvas pixels.
+ */
+export function drawBackground(
+  ctx: Ctx2D,
+  image: ImageBitmap,
+  placement: BackgroundPlacement,
+  scale = 1,
+) {
+  const { x, y, w, h } = placement;
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.drawImage(image, x, y, w, h);
+  ctx.restore();
+}
@@ -0,0 +1,86 @@
+import { brushLookup, type Brush } from "./brushes";
+import { createCanvas, get2d } from "./draw";
+import { createStrokePreview } from "./liveStroke";
+import type { PaintStroke } from "./paintDocument";
+
+export type StrokeBenchmarkOptions = {
+  /** Canvas size in document units. Defaults to the stroke's extent. */
+  width?: number;
+  height?: number;
+  /** Canvas pixels per unit, e.g. 2 to match a retina screen. @default 1 */
+  pixelRatio?: number;
+  /**
+   * Draw only what each frame adds, as the live preview does. Turn off to
+   * time redrawing the whole stroke every frame instead.
+   * @default true
+   */
+  incremental?: boolean;
+  /** Points added per frame, as a fast pen's coalesced events. @default 1 */
+  pointsPerFrame?: number;
+  /** Brushes the stroke may use besides the built-in and registered ones. */
+  brushes?: Brush[];
+};
+
+export type StrokeBenchmark = {
+  /** Milliseconds per frame, in order. */
+  frames: number[];
+  mean: number;
+  /** 95th percentile. */
+  p95: number;
+  max: number;
+  total: number;
+};
+
+/**
+ * Replays a recorded brush stroke (from `onStrokeEnd` or a document's ops)
+ * through the live preview, one frame per batch of points, and times each
+ * frame. Reading back a pixel after each one makes the browser finish the
+ * drawing, so the times include the GPU's share. Runs synchronously, so call
+ * it from a page or the console rather than mid-interaction.
+ */
+export function benchmarkStroke(
+  stroke: PaintStroke,
+  {
+    width,
+    height,
+    pixelRatio = 1,
+    incremental = true,
+    pointsPerFrame = 1,
+    brushes,
+  }: StrokeBenchmarkOptions = {},
+): StrokeBenchmark {
+  const { points } = stroke;
+  if (points.length === 0) {
+    return { frames: [], mean: 0, p95: 0, max: 0, total: 0 };
+  }
+  const pad = stroke.width;
+  const w = width ?? points.reduce((m, p) => Math.max(m, p.x + pad), 1);
+  const h = height ?? points.reduce((m, p) => Math.max(m, p.y + pad), 1);
+  const ctx = get2d(
+    createCanvas(Math.ceil(w * pixelRatio), Math.ceil(h * pixelRatio)),
+  );
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  const brushFor = brushLookup(brushes);
+  const brush = brushFor(stroke.tool === "eraser" ? undefined : stroke.brush);
+  const preview = createStrokePreview(ctx, brush, { incremental });
+
+  const frames: number[] = [];
+  const step = Math.max(1, Math.floor(pointsPerFrame));
+  for (let n = Math.min(step, points.length); ; n += step) {
+    const start = performance.now();
+    preview.frame({ ...stroke, points: points.slice(0, n) });
+    ctx.getImageData(0, 0, 1, 1);
+    frames.push(performance.now() - start);
+    if (n >= points.length) break;
+  }
+
+  const sorted = [...frames].sort((a, b) => a - b);
+  const total = frames.reduce((sum, t) => sum + t, 0);
+  return {
+    frames,
+    mean: total / frames.length,
+    p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+    max: sorted[sorted.length - 1],
+    total,
+  };
+}
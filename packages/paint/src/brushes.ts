@@ -0,0 +1,535 @@
+import {
+  createCanvas,
+  drawBezierPath,
+  drawVariablePath,
+  get2d,
+  parseColor,
+  type Ctx2D,
+} from "./draw";
+import type { PaintPoint } from "./paintDocument";
+
+// ─── Brush interface ─────────────────────────────────────────────────────────
+
+/** One whole stroke as a brush sees it, in document units. */
+export type BrushStroke = {
+  points: PaintPoint[];
+  color: string;
+  /** Brush size (`markerWidth`) at the time of the stroke. */
+  width: number;
+  /** Whether each point's own `w` (pen pressure) drives the width. */
+  variable: boolean;
+};
+
+/**
+ * A brush turns a stroke's recorded points into pixels. `draw` gets every
+ * point so far on each frame of the live preview (onto a cleared canvas) and
+ * the whole stroke again whenever the document is replayed, so it must be
+ * deterministic — seed any randomness from the points, never `Math.random`.
+ * `ctx` already maps document units to canvas pixels; state changes don't
+ * need undoing.
+ */
+export type Brush = {
+  /** Stored on each stroke, so keep it stable across releases. */
+  id: string;
+  /** Label for the built-in brush picker. */
+  name: string;
+  /**
+   * How far marks reach from a point, as a multiple of its width — sizes the
+   * undo rect. @default 0.5
+   */
+  spread?: number;
+  draw(ctx: Ctx2D, stroke: BrushStroke): void;
+  /**
+   * Adds the marks that points from index `from` on bring to a canvas that
+   * already holds this brush's marks for the earlier points. They may stop
+   * short of the last point, for the next call to pick up. Lets the live
+   * preview draw only what changed each frame; brushes without it are
+   * redrawn whole. Committed strokes are always drawn whole with `draw`.
+   */
+  drawSince?(ctx: Ctx2D, stroke: BrushStroke, from: number): void;
+};
+
+const widthAt = (p: PaintPoint, s: BrushStroke) =>
+  s.variable ? p.w : s.width;
+
+// ─── Helpers ─────────────────────────────────────────────────────────────────
+
+// Small seeded PRNG (mulberry32) so sprays and grain redraw identically
+function random(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A position along a stroke where a spaced-out brush leaves a mark. */
+type Dab = {
+  x: number;
+  y: number;
+  /** Width interpolated between the surrounding points. */
+  w: number;
+  /** Direction of travel, in radians. */
+  angle: number;
+  /** Counts dabs from the start of the stroke. */
+  i: number;
+  /** The recorded point the dab leads up to, for its pen pose. */
+  point: PaintPoint;
+};
+
+/**
+ * Calls `dab` every `spacing` units along the polyline through `pts`. With
+ * `from`, only the dabs leading up to points from that index on are made,
+ * exactly as a walk of the whole path would place them.
+ */
+function walkPath(
+  pts: PaintPoint[],
+  spacing: number,
+  dab: (dab: Dab) => void,
+  from = 0,
+) {
+  let i = 0;
+  let angle = 0;
+  if (from === 0) dab({ ...pts[0], angle, i, point: pts[0] });
+  i++;
+  // Distance travelled since the last dab
+  let since = 0;
+  for (let k = 1; k < pts.length; k++) {
+    const a = pts[k - 1];
+    const b = pts[k];
+    const len = Math.hypot(b.x - a.x, b.y - a.y);
+    if (len === 0) continue;
+    angle = Math.atan2(b.y - a.y, b.x - a.x);
+    let t = spacing - since;
+    for (; t <= len; t += spacing) {
+      const f = t / len;
+      if (k < from) {
+        i++;
+        continue;
+      }
+      dab({
+        x: a.x + (b.x - a.x) * f,
+        y: a.y + (b.y - a.y) * f,
+        w: a.w + (b.w - a.w) * f,
+        angle,
+        i: i++,
+        point: b,
+      });
+    }
+    since = len - (t - spacing);
+  }
+}
+
+/**
+ * A pen's pose at a point, from its recorded tilt: `altitude` from the
+ * surface (π/2 is upright) and `azimuth`, the direction it leans in, both in
+ * radians. Null for points without tilt (mouse, touch, upright pens).
+ */
+export function penPose(p: PaintPoint) {
+  if (!p.tiltX && !p.tiltY) return null;
+  const tx = Math.tan(((p.tiltX ?? 0) * Math.PI) / 180);
+  const ty = Math.tan(((p.tiltY ?? 0) * Math.PI) / 180);
+  return {
+    altitude: Math.atan(1 / Math.hypot(tx, ty)),
+    azimuth: Math.atan2(ty, tx),
+  };
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+let flatScratch: HTMLCanvasElement | OffscreenCanvas | null = null;
+
+/**
+ * Runs `paint` with an opaque version of `color` on a scratch canvas, then
+ * composites the result at the colour's alpha × `opacity`. Overlapping marks
+ * within the stroke therefore don't build up, like ink from a felt tip.
+ */
+function drawFlat(
+  ctx: Ctx2D,
+  color: string,
+  opacity: number,
+  paint: (ctx: Ctx2D, color: string) => void,
+) {
+  const { width, height } = ctx.canvas;
+  if (
+    !flatScratch ||
+    flatScratch.width !== width ||
+    flatScratch.height !== height
+  ) {
+    flatScratch = createCanvas(width, height);
+  }
+  const s = get2d(flatScratch);
+  s.setTransform(1, 0, 0, 1, 0, 0);
+  s.clearRect(0, 0, width, height);
+  s.setTransform(ctx.getTransform());
+  const [r, g, b, a] = parseColor(color);
+  paint(s, `rgb(${r} ${g} ${b})`);
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalAlpha = (a / 255) * opacity;
+  ctx.drawImage(flatScratch, 0, 0);
+  ctx.restore();
+}
+
+// ─── Built-in brushes ────────────────────────────────────────────────────────
+
+/** The classic smooth round brush. */
+export const roundBrush: Brush = {
+  id: "round",
+  name: "Round",
+  draw(ctx, { points, color, width, variable }) {
+    ctx.lineJoin = "round";
+    ctx.lineCap = "round";
+    ctx.lineWidth = width;
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    if (variable) drawVariablePath(ctx, points);
+    else drawBezierPath(ctx, points);
+  },
+  // Piece i of the smoothed path curves through point i, between the
+  // midpoints either side of it, so a new point settles the piece before it
+  drawSince(ctx, { points, color, width, variable }, from) {
+    ctx.lineJoin = "round";
+    ctx.lineCap = "round";
+    ctx.lineWidth = width;
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    if (from === 0) {
+      const p = points[0];
+      ctx.beginPath();
+      ctx.arc(p.x, p.y, (variable ? p.w : width) / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    for (let i = Math.max(1, from - 1); i < points.length - 1; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      const c = points[i + 1];
+      ctx.beginPath();
+      // drawBezierPath starts at the first point, drawVariablePath midway
+      if (i === 1 && !variable) ctx.moveTo(a.x, a.y);
+      else ctx.moveTo((a.x + b.x) / 2, (a.y + b.y) / 2);
+      if (variable) ctx.lineWidth = (b.w + c.w) / 2;
+      ctx.quadraticCurveTo(b.x, b.y, (b.x + c.x) / 2, (b.y + c.y) / 2);
+      ctx.stroke();
+    }
+  },
+};
+
+// A right-hander's nib held at 45° when the pen reports no pose
+const NIB_ANGLE = -Math.PI / 4;
+
+function nibAngle(p: PaintPoint) {
+  // Rolling the barrel turns the nib, like a real broad-edge pen
+  if (p.twist !== undefined) return NIB_ANGLE + toRadians(p.twist);
+  // Otherwise the nib lies across the direction the pen leans
+  const pose = penPose(p);
+  return pose ? pose.azimuth + Math.PI / 2 : NIB_ANGLE;
+}
+
+/**
+ * A flat nib: thick across its edge and hairline along it, so the width
+ * follows the stroke's direction. The nib turns with the pen's twist, or
+ * with its tilt on pens that don't report twist.
+ */
+export const calligraphyBrush: Brush = {
+  id: "calligraphy",
+  name: "Calligraphy",
+  draw(ctx, stroke) {
+    drawFlat(ctx, stroke.color, 1, (s, color) => drawNib(s, stroke, color, 0));
+  },
+  // Straight onto the canvas: translucent colours darken a little where
+  // the pieces meet, until the committed stroke is drawn whole
+  drawSince(ctx, stroke, from) {
+    drawNib(ctx, stroke, stroke.color, from);
+  },
+};
+
+function drawNib(s: Ctx2D, stroke: BrushStroke, color: string, from: number) {
+  s.fillStyle = color;
+  s.strokeStyle = color;
+  s.lineJoin = "round";
+  s.lineCap = "round";
+  // The nib's own thickness, so strokes along it still show
+  s.lineWidth = Math.max(1, stroke.width * 0.08);
+  const ends = (p: PaintPoint) => {
+    const a = nibAngle(p);
+    const h = widthAt(p, stroke) / 2;
+    const dx = Math.cos(a) * h;
+    const dy = Math.sin(a) * h;
+    return { x0: p.x + dx, y0: p.y + dy, x1: p.x - dx, y1: p.y - dy };
+  };
+  const { points } = stroke;
+  if (from === 0) {
+    const first = ends(points[0]);
+    s.beginPath();
+    s.moveTo(first.x0, first.y0);
+    s.lineTo(first.x1, first.y1);
+    s.stroke();
+  }
+  // Fill the quad each nib edge sweeps between consecutive points
+  for (let i = Math.max(1, from); i < points.length; i++) {
+    const a = ends(points[i - 1]);
+    const b = ends(points[i]);
+    s.beginPath();
+    s.moveTo(a.x0, a.y0);
+    s.lineTo(b.x0, b.y0);
+    s.lineTo(b.x1, b.y1);
+    s.lineTo(a.x1, a.y1);
+    s.closePath();
+    s.fill();
+    s.stroke();
+  }
+}
+
+/**
+ * A spray of single-unit dots, denser towards the centre. `density` (0–1) is
+ * roughly the share of the spray's area each dab covers. Tilting the pen
+ * stretches the spray into an ellipse thrown out the way it leans, and
+ * lightens it, as with a real airbrush held at an angle.
+ */
+export function createAirbrush({
+  id = "airbrush",
+  name = "Airbrush",
+  density = 0.3,
+}: { id?: string; name?: string; density?: number } = {}): Brush {
+  const spray = (ctx: Ctx2D, stroke: BrushStroke, from: number) => {
+    const { points, color, width } = stroke;
+    ctx.fillStyle = color;
+    const seed = Math.round(points[0].x * 73856093) ^ Math.round(points[0].y);
+    walkPath(
+      points,
+      Math.max(1, width / 4),
+      ({ x, y, w, i, point }) => {
+        const r = (stroke.variable ? w : width) / 2;
+        const pose = penPose(point);
+        const stretch = pose ? Math.min(2, 1 / Math.sin(pose.altitude)) : 1;
+        const azimuth = pose?.azimuth ?? 0;
+        const cos = Math.cos(azimuth);
+        const sin = Math.sin(azimuth);
+        const cx = x + ((stretch - 1) * r * cos) / 2;
+        const cy = y + ((stretch - 1) * r * sin) / 2;
+        ctx.globalAlpha = 1 / stretch;
+        const rand = random(seed + i);
+        const dots = Math.ceil((density * Math.PI * r * r) / 4);
+        for (let d = 0; d < dots; d++) {
+          const a = rand() * Math.PI * 2;
+          const dist = r * rand();
+          // Along / across the lean, then rotated into place
+          const u = Math.cos(a) * dist * stretch;
+          const v = Math.sin(a) * dist;
+          ctx.fillRect(
+            cx + u * cos - v * sin - 0.5,
+            cy + u * sin + v * cos - 0.5,
+            1,
+            1,
+          );
+        }
+      },
+      from,
+    );
+  };
+
+  return {
+    id,
+    name,
+    // A fully tilted spray reaches twice its radius, thrown half a radius out
+    spread: 1.25,
+    draw: (ctx, stroke) => spray(ctx, stroke, 0),
+    drawSince: spray,
+  };
+}
+
+export const airbrush = createAirbrush();
+
+/**
+ * A translucent chisel-tip marker. Overlaps within one stroke stay the same
+ * shade; separate strokes still layer.
+ */
+export const markerBrush: Brush = {
+  id: "marker",
+  name: "Marker",
+  spread: Math.SQRT1_2,
+  draw(ctx, { points, color, width, variable }) {
+    drawFlat(ctx, color, 0.5, (s, c) => {
+      s.lineJoin = "round";
+      s.lineCap = "square";
+      s.lineWidth = width;
+      s.strokeStyle = c;
+      s.fillStyle = c;
+      if (variable) drawVariablePath(s, points);
+      else drawBezierPath(s, points);
+    });
+  },
+};
+
+/** An image usable as a stamp tip. It must be fully loaded / decoded. */
+export type StampTip =
+  | HTMLImageElement
+  | HTMLCanvasElement
+  | ImageBitmap
+  | OffscreenCanvas;
+
+export type StampBrushOptions = {
+  id: string;
+  name: string;
+  /**
+   * The tip: only its alpha is used, tinted with the stroke colour. A
+   * function is called the first time the brush draws.
+   */
+  tip: StampTip | (() => StampTip);
+  /** Gap between stamps as a fraction of the width. @default 0.25 */
+  spacing?: number;
+  /**
+   * Turn the tip to follow the stroke's direction. The pen's twist turns it
+   * either way.
+   * @default false
+   */
+  rotate?: boolean;
+};
+
+/**
+ * A brush that repeats an image tip along the stroke, scaled to the stroke
+ * width (keeping its aspect ratio). A tilted pen lays the tip down fainter.
+ */
+export function createStampBrush({
+  id,
+  name,
+  tip,
+  spacing = 0.25,
+  rotate = false,
+}: StampBrushOptions): Brush {
+  let image: StampTip | null = null;
+  // Tinted copies of the tip by colour
+  const tinted = new Map<string, HTMLCanvasElement | OffscreenCanvas>();
+
+  const tipFor = (color: string) => {
+    image ??= typeof tip === "function" ? tip() : tip;
+    let t = tinted.get(color);
+    if (!t && image.width && image.height) {
+      if (tinted.size >= 16) tinted.clear();
+      t = createCanvas(image.width, image.height);
+      const tctx = get2d(t);
+      tctx.drawImage(image, 0, 0);
+      tctx.globalCompositeOperation = "source-in";
+      tctx.fillStyle = color;
+      tctx.fillRect(0, 0, t.width, t.height);
+      tinted.set(color, t);
+    }
+    return t;
+  };
+
+  const stamp = (ctx: Ctx2D, stroke: BrushStroke, from: number) => {
+    const t = tipFor(stroke.color);
+    if (!t) return;
+    const aspect = t.height / t.width;
+    walkPath(
+      stroke.points,
+      Math.max(1, stroke.width * spacing),
+      ({ x, y, w, angle, point }) => {
+        const size = stroke.variable ? w : stroke.width;
+        const pose = penPose(point);
+        ctx.save();
+        ctx.translate(x, y);
+        if (rotate) ctx.rotate(angle);
+        if (point.twist !== undefined) ctx.rotate(toRadians(point.twist));
+        if (pose) ctx.globalAlpha = 0.3 + 0.7 * Math.sin(pose.altitude);
+        const h = size * aspect;
+        ctx.drawImage(t, -size / 2, -h / 2, size, h);
+        ctx.restore();
+      },
+      from,
+    );
+  };
+
+  return {
+    id,
+    name,
+    // Enough for the tip's diagonal, since it may be rotated
+    get spread() {
+      const t = image ?? (typeof tip === "function" ? null : tip);
+      return t && t.width ? Math.hypot(1, t.height / t.width) / 2 : 0.75;
+    },
+    draw: (ctx, stroke) => stamp(ctx, stroke, 0),
+    drawSince: stamp,
+  };
+}
+
+// Soft-edged speckle, like dry media on rough paper
+function grainTip() {
+  const size = 64;
+  const ctx = get2d(createCanvas(size, size));
+  const image = ctx.createImageData(size, size);
+  const rand = random(1);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const d = Math.hypot(x + 0.5 - size / 2, y + 0.5 - size / 2) / (size / 2);
+      if (d >= 1 || rand() < 0.45) continue;
+      image.data[(y * size + x) * 4 + 3] = Math.round(255 * (1 - d * d));
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return ctx.canvas;
+}
+
+/** A grainy stamp brush for chalk- or pencil-like texture. */
+export const texturedBrush = createStampBrush({
+  id: "textured",
+  name: "Textured",
+  tip: grainTip,
+  spacing: 0.15,
+});
+
+/** Built-in brushes, in picker order. */
+export const PAINT_BRUSHES: Brush[] = [
+  roundBrush,
+  calligraphyBrush,
+  airbrush,
+  markerBrush,
+  texturedBrush,
+];
+
+// ─── Registry ────────────────────────────────────────────────────────────────
+
+// Brushes by id, for replaying strokes. Module-wide like the image cache, so
+// any document can be rendered once its brushes are registered.
+const registry = new Map(PAINT_BRUSHES.map((b) => [b.id, b]));
+
+/**
+ * Makes `brush` available to replay everywhere on the page (replacing any
+ * registered brush with its id). Throws for a built-in brush's id, which
+ * would change how every document draws.
+ */
+export function registerBrush(brush: Brush) {
+  if (PAINT_BRUSHES.some((b) => b.id === brush.id)) {
+    throw new Error(`"${brush.id}" is a built-in brush`);
+  }
+  registry.set(brush.id, brush);
+}
+
+/** The brush with `id`; unknown or missing ids fall back to the round brush. */
+export const getBrush = (id?: string) =>
+  (id !== undefined && registry.get(id)) || roundBrush;
+
+/**
+ * Looks brushes up in `brushes` first, then as `getBrush` does, so one
+ * `Paint` (or render) can have brushes of its own without touching anyone
+ * else's.
+ */
+export function brushLookup(brushes: Brush[] = []) {
+  if (!brushes.length) return getBrush;
+  const own = new Map(brushes.map((b) => [b.id, b]));
+  return (id?: string) => (id !== undefined && own.get(id)) || getBrush(id);
+}
+
+/**
+ * How far a stroke's marks can reach from its points: the widest point times
+ * the brush's `spread`, plus 1px for anti-aliasing.
+ */
+export function strokePad(brush: Brush, points: PaintPoint[], width: number) {
+  const widest = points.reduce((m, p) => Math.max(m, p.w), width);
+  return widest * (brush.spread ?? 0.5) + 1;
+}
@@ -0,0 +1,316 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  applyRemoteOps,
+  createWebSocketAdapter,
+  layerChanges,
+  mergeLayerEntries,
+  stackFromEntries,
+  stampedOps,
+  type PaintCollabMessage,
+  type PaintLayerEntry,
+  type PaintOpStamp,
+  type PaintStampedOp,
+  type WebSocketLike,
+} from "./collab";
+import { createLayer } from "./layers";
+import type { PaintOp } from "./paintDocument";
+
+// A socket that opens, closes and receives when told to
+function fakeSocket() {
+  const listeners = new Map<string, Set<(ev: { data: unknown }) => void>>();
+  const socket = {
+    readyState: 0,
+    sent: [] as string[],
+    send(data: string) {
+      if (socket.readyState !== 1) throw new Error("Socket is not open");
+      socket.sent.push(data);
+    },
+    close: vi.fn(() => {
+      socket.readyState = 3;
+    }),
+    addEventListener(type: string, listener: (ev: { data: unknown }) => void) {
+      if (!listeners.has(type)) listeners.set(type, new Set());
+      listeners.get(type)!.add(listener);
+    },
+    emit(type: string, data?: unknown) {
+      if (type === "open") socket.readyState = 1;
+      for (const listener of listeners.get(type) ?? []) listener({ data });
+    },
+  };
+  return socket;
+}
+
+// A relay server in the test itself: each `connect()` is a socket whose
+// messages reach every other open socket, a task later as over a network
+function createRelay() {
+  const sockets = new Set<ReturnType<typeof fakeSocket>>();
+  return {
+    connect(): WebSocketLike {
+      const socket = fakeSocket();
+      const send = socket.send;
+      socket.send = (data) => {
+        send(data);
+        for (const other of sockets) {
+          if (other === socket) continue;
+          setTimeout(() => other.emit("message", data));
+        }
+      };
+      setTimeout(() => {
+        sockets.add(socket);
+        socket.emit("open");
+      });
+      return socket;
+    },
+  };
+}
+
+const tick = () => new Promise((resolve) => setTimeout(resolve));
+
+const clear = (layer: string): PaintOp => ({ type: "clear", layer });
+
+// Ops with stamps, as a peer holds them
+function board(ops: PaintStampedOp[] = []) {
+  const stamps = new WeakMap<PaintOp, PaintOpStamp>();
+  for (const { op, ...stamp } of ops) stamps.set(op, stamp);
+  return { ops: ops.map((o) => o.op), stamps };
+}
+
+const stamped = (clock: number, peer: string, layer = "layer-1") => ({
+  clock,
+  peer,
+  op: clear(layer),
+});
+
+describe("createWebSocketAdapter", () => {
+  it("queues messages until the socket opens", () => {
+    const socket = fakeSocket();
+    const adapter = createWebSocketAdapter(socket);
+    adapter.send({ type: "leave", peer: "a" });
+    expect(socket.sent).toEqual([]);
+    socket.emit("open");
+    expect(socket.sent.map((d) => JSON.parse(d))).toEqual([
+      { type: "leave", peer: "a" },
+    ]);
+    adapter.send({ type: "leave", peer: "b" });
+    expect(socket.sent).toHaveLength(2);
+  });
+
+  it("drops presence while connecting, and keeps everything else", () => {
+    const socket = fakeSocket();
+    const adapter = createWebSocketAdapter(socket);
+    const peer = { id: "a", name: "", color: "" };
+    adapter.send({ type: "hello", peer });
+    adapter.send({ type: "presence", peer, cursor: { x: 1, y: 1 } });
+    const ops = Array.from({ length: 300 }, (_, i) => stamped(i + 1, "a"));
+    for (const op of ops) adapter.send({ type: "ops", ops: [op] });
+    adapter.send({ type: "remove", stamps: [{ clock: 1, peer: "a" }] });
+    socket.emit("open");
+    const sent = socket.sent.map((d) => JSON.parse(d));
+    expect(sent).toHaveLength(302);
+    expect(sent[0]).toEqual({ type: "hello", peer });
+    expect(sent.some((m) => m.type === "presence")).toBe(false);
+    expect(sent[301].type).toBe("remove");
+  });
+
+  it.each(["close", "error"])("drops the queue on %s", (type) => {
+    const socket = fakeSocket();
+    const adapter = createWebSocketAdapter(socket);
+    adapter.send({ type: "leave", peer: "a" });
+    socket.emit(type);
+    socket.readyState = 3;
+    adapter.send({ type: "leave", peer: "b" });
+    socket.emit("open");
+    expect(socket.sent).toEqual([]);
+  });
+
+  it("hands parsed messages to listeners until they unsubscribe", () => {
+    const socket = fakeSocket();
+    const adapter = createWebSocketAdapter(socket);
+    const listener = vi.fn();
+    const unsubscribe = adapter.subscribe(listener);
+    socket.emit("message", JSON.stringify({ type: "leave", peer: "a" }));
+    socket.emit("message", "not json");
+    socket.emit("message", new ArrayBuffer(4));
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ type: "leave", peer: "a" });
+    unsubscribe();
+    socket.emit("message", JSON.stringify({ type: "leave", peer: "b" }));
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it("closes the socket", () => {
+    const socket = fakeSocket();
+    createWebSocketAdapter(socket).close();
+    expect(socket.close).toHaveBeenCalled();
+  });
+
+  it("reaches every other peer through a relay", async () => {
+    const relay = createRelay();
+    const [a, b, c] = [0, 1, 2].map(() =>
+      createWebSocketAdapter(relay.connect()),
+    );
+    const got = { a: vi.fn(), b: vi.fn(), c: vi.fn() };
+    a.subscribe(got.a);
+    b.subscribe(got.b);
+    c.subscribe(got.c);
+    await tick();
+    a.send({ type: "leave", peer: "a" });
+    await tick();
+    expect(got.a).not.toHaveBeenCalled();
+    expect(got.b).toHaveBeenCalledWith({ type: "leave", peer: "a" });
+    expect(got.c).toHaveBeenCalledWith({ type: "leave", peer: "a" });
+  });
+});
+
+describe("applyRemoteOps", () => {
+  it("keeps ops in stamp order whatever order they arrive in", () => {
+    const { ops, stamps } = board([stamped(1, "a")]);
+    const late = stamped(3, "b");
+    const early = stamped(2, "b");
+    const result = applyRemoteOps(ops, stamps, [
+      { type: "ops", ops: [late] },
+      { type: "ops", ops: [early] },
+    ]);
+    expect(stampedOps(result.ops, stamps).map((o) => o.clock)).toEqual([
+      1, 2, 3,
+    ]);
+    expect(result.added).toEqual([late.op, early.op]);
+    expect(result.appended).toEqual([late.op]);
+    expect(result.rebuild).toBe(true);
+  });
+
+  it("breaks clock ties by peer id", () => {
+    const { ops, stamps } = board([stamped(1, "b")]);
+    const { ops: result } = applyRemoteOps(ops, stamps, [
+      { type: "ops", ops: [stamped(1, "a")] },
+    ]);
+    expect(stampedOps(result, stamps).map((o) => o.peer)).toEqual(["a", "b"]);
+  });
+
+  it("appends ops that sort last without a rebuild", () => {
+    const { ops, stamps } = board([stamped(1, "a")]);
+    const next = stamped(2, "b");
+    const result = applyRemoteOps(ops, stamps, [{ type: "ops", ops: [next] }]);
+    expect(result.appended).toEqual([next.op]);
+    expect(result.rebuild).toBe(false);
+  });
+
+  it("skips ops delivered twice", () => {
+    const { ops, stamps } = board([stamped(1, "a")]);
+    const result = applyRemoteOps(ops, stamps, [
+      { type: "ops", ops: [stamped(1, "a"), stamped(2, "b")] },
+      { type: "ops", ops: [stamped(2, "b")] },
+    ]);
+    expect(result.ops).toHaveLength(2);
+    expect(result.added).toHaveLength(1);
+  });
+
+  it("removes undone ops, and takes them back on redo", () => {
+    const first = stamped(1, "a");
+    const second = stamped(2, "b");
+    const { ops, stamps } = board([first, second]);
+    const undone = applyRemoteOps(ops, stamps, [
+      { type: "remove", stamps: [{ clock: 1, peer: "a" }] },
+    ]);
+    expect(undone.ops).toEqual([second.op]);
+    expect(undone.rebuild).toBe(true);
+    const redone = applyRemoteOps(undone.ops, stamps, [
+      { type: "ops", ops: [first] },
+    ]);
+    expect(redone.ops).toEqual([first.op, second.op]);
+  });
+
+  it("leaves local-only ops where they are", () => {
+    const local = clear("layer-2");
+    const { ops, stamps } = board([stamped(1, "a")]);
+    ops.push(local);
+    const { ops: result } = applyRemoteOps(ops, stamps, [
+      { type: "remove", stamps: [{ clock: 1, peer: "a" }] },
+    ]);
+    expect(result).toEqual([local]);
+  });
+});
+
+describe("layer stack", () => {
+  const ids = (entries: Map<string, PaintLayerEntry>) =>
+    stackFromEntries(entries.values()).map((l) => l.id);
+
+  // A peer's entries for `layers`, stamped by its own clock
+  function peer(name: string, layers = [createLayer("layer-1", "Layer 1")]) {
+    let clock = 0;
+    const stamp = () => ({ clock: ++clock, peer: name });
+    const entries = new Map<string, PaintLayerEntry>();
+    mergeLayerEntries(entries, layerChanges(entries, layers, stamp));
+    const change = (next: typeof layers) => {
+      const changes = layerChanges(entries, next, stamp);
+      mergeLayerEntries(entries, changes);
+      return changes;
+    };
+    return { entries, change };
+  }
+
+  it("shares only what changed", () => {
+    const base = createLayer("layer-1", "Layer 1");
+    const a = peer("a", [base]);
+    const added = createLayer("a:layer-2", "Layer 2");
+    expect(a.change([base, added]).map((e) => e.id)).toEqual(["a:layer-2"]);
+    expect(a.change([base, added])).toEqual([]);
+    const removed = a.change([added]);
+    expect(removed).toMatchObject([{ id: "layer-1", layer: null }]);
+    expect(ids(a.entries)).toEqual(["a:layer-2"]);
+  });
+
+  it("ends up the same on every peer, in any order", () => {
+    const base = createLayer("layer-1", "Layer 1");
+    const a = peer("a", [base]);
+    const b = peer("b", [base]);
+    const fromA = a.change([base, createLayer("a:layer-2", "Layer 2")]);
+    const fromB = b.change([createLayer("b:layer-2", "Layer 2"), base]);
+    mergeLayerEntries(a.entries, fromB);
+    mergeLayerEntries(b.entries, fromA);
+    mergeLayerEntries(b.entries, fromA);
+    expect(ids(a.entries)).toEqual(ids(b.entries));
+    expect(ids(a.entries)).toEqual(["b:layer-2", "layer-1", "a:layer-2"]);
+  });
+
+  it("keeps the newest change to a layer", () => {
+    const base = createLayer("layer-1", "Layer 1");
+    const a = peer("a", [base]);
+    const b = peer("b", [base]);
+    const hidden = a.change([{ ...base, visible: false }]);
+    const renamed = b.change([{ ...base, name: "Ink" }]);
+    mergeLayerEntries(a.entries, renamed);
+    mergeLayerEntries(b.entries, hidden);
+    // Both stamped at clock 2, so the tie goes to peer "b"
+    expect(stackFromEntries(a.entries.values())).toEqual([
+      { ...base, name: "Ink" },
+    ]);
+    expect(stackFromEntries(b.entries.values())).toEqual([
+      { ...base, name: "Ink" },
+    ]);
+  });
+});
+
+describe("joining a board", () => {
+  // What each peer answers a `hello` with, as Paint does
+  function answerHello(peer: ReturnType<typeof board>): PaintCollabMessage {
+    return { type: "ops", ops: stampedOps(peer.ops, peer.stamps) };
+  }
+
+  it("catches a new peer up with every board, overlapping or not", () => {
+    const shared = [stamped(1, "a"), stamped(2, "b")];
+    const a = board([...shared, stamped(4, "a")]);
+    const b = board([...shared, stamped(3, "b")]);
+    const newcomer = board();
+    const { ops } = applyRemoteOps(newcomer.ops, newcomer.stamps, [
+      answerHello(b),
+      answerHello(a),
+    ]);
+    expect(stampedOps(ops, newcomer.stamps).map(({ op, ...s }) => s)).toEqual([
+      { clock: 1, peer: "a" },
+      { clock: 2, peer: "b" },
+      { clock: 3, peer: "b" },
+      { clock: 4, peer: "a" },
+    ]);
+  });
+});
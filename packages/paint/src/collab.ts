@@ -0,0 +1,358 @@
+import type { PaintLayer } from "./layers";
+import type { PaintDocument, PaintOp } from "./paintDocument";
+
+/** Someone drawing on a shared board. */
+export type PaintPeer = {
+  /** Unique per board; random unless given. */
+  id: string;
+  name: string;
+  /** Their cursor's colour, as seen by the others. */
+  color: string;
+};
+
+/** Another peer on the board, and where their pointer is. */
+export type PaintRemotePeer = PaintPeer & {
+  /** In document units; null while it's off the canvas. */
+  cursor: { x: number; y: number } | null;
+};
+
+/**
+ * Where an op sits in the order every peer agrees on: by `clock`, a Lamport
+ * clock, then by `peer` id. Together they also identify the op.
+ */
+export type PaintOpStamp = { clock: number; peer: string };
+
+/** An op with its place in the shared order. */
+export type PaintStampedOp = PaintOpStamp & { op: PaintOp };
+
+/**
+ * A layer's place in the shared stack: its latest settings, null once it's
+ * deleted or merged away, and the `position` the stack is sorted by. The
+ * newest stamp wins layer by layer, so concurrent edits to different layers
+ * all survive.
+ */
+export type PaintLayerEntry = PaintOpStamp & {
+  id: string;
+  layer: PaintLayer | null;
+  position: number;
+};
+
+/** Everything peers tell each other. Plain data, so it survives JSON. */
+export type PaintCollabMessage =
+  /** A peer joined; the others answer with their ops and presence. */
+  | { type: "hello"; peer: PaintPeer }
+  /** Committed ops, new or redone, or the whole document for a newcomer. */
+  | { type: "ops"; ops: PaintStampedOp[] }
+  /** Ops that were undone. */
+  | { type: "remove"; stamps: PaintOpStamp[] }
+  /** Layers added, changed, moved or deleted, or the whole stack. */
+  | { type: "layers"; entries: PaintLayerEntry[] }
+  /** A new background image (null for none); the newest stamp wins. */
+  | {
+      type: "background";
+      stamp: PaintOpStamp;
+      background: NonNullable<PaintDocument["background"]> | null;
+    }
+  /** Where a peer's pointer is over the document, null once it's left. */
+  | {
+      type: "presence";
+      peer: PaintPeer;
+      cursor: { x: number; y: number } | null;
+    }
+  | { type: "leave"; peer: string };
+
+/**
+ * Carries messages between the peers on a board. `send` reaches every other
+ * peer, never the sender; `subscribe` returns its own unsubscribe. Delivery
+ * may be in any order and may repeat: ops are ordered by their stamps and
+ * only applied once.
+ */
+export type PaintCollabAdapter = {
+  send(message: PaintCollabMessage): void;
+  subscribe(listener: (message: PaintCollabMessage) => void): () => void;
+};
+
+/** Orders two stamps: by clock, then by peer id. */
+export const compareStamps = (a: PaintOpStamp, b: PaintOpStamp) =>
+  a.clock - b.clock || (a.peer < b.peer ? -1 : a.peer > b.peer ? 1 : 0);
+
+/** A stamp as a string, for telling ops apart. */
+export const stampKey = (s: PaintOpStamp) => `${s.clock}:${s.peer}`;
+
+/** The stamped ops among `ops`, in order, as they're sent to other peers. */
+export function stampedOps(
+  ops: PaintOp[],
+  stamps: WeakMap<PaintOp, PaintOpStamp>,
+): PaintStampedOp[] {
+  return ops.flatMap((op) => {
+    const stamp = stamps.get(op);
+    return stamp ? [{ ...stamp, op }] : [];
+  });
+}
+
+/**
+ * Puts `op` into `ops` where its stamp sorts among the stamped ones, after
+ * any unstamped (local-only) ops there. True when that's the end.
+ */
+export function insertStamped(
+  ops: PaintOp[],
+  stamps: WeakMap<PaintOp, PaintOpStamp>,
+  op: PaintOp,
+  stamp: PaintOpStamp,
+) {
+  let i = ops.length;
+  while (i > 0) {
+    const s = stamps.get(ops[i - 1]);
+    if (!s || compareStamps(s, stamp) < 0) break;
+    i--;
+  }
+  ops.splice(i, 0, op);
+  stamps.set(op, stamp);
+  return i === ops.length - 1;
+}
+
+/**
+ * Applies `ops` and `remove` messages from other peers to `ops`, skipping
+ * ops it already has. `appended` are the new ops that landed at the end and
+ * can simply be drawn on top; with `rebuild` set, anything may have changed
+ * and the document needs drawing again.
+ */
+export function applyRemoteOps(
+  ops: PaintOp[],
+  stamps: WeakMap<PaintOp, PaintOpStamp>,
+  messages: PaintCollabMessage[],
+) {
+  const present = new Set(stampedOps(ops, stamps).map(stampKey));
+  const added: PaintOp[] = [];
+  const appended: PaintOp[] = [];
+  let rebuild = false;
+  for (const message of messages) {
+    if (message.type === "remove") {
+      const removed = new Set(message.stamps.map(stampKey));
+      ops = ops.filter((op) => {
+        const stamp = stamps.get(op);
+        if (!stamp || !removed.has(stampKey(stamp))) return true;
+        present.delete(stampKey(stamp));
+        rebuild = true;
+        return false;
+      });
+    } else if (message.type === "ops") {
+      for (const { op, ...stamp } of message.ops) {
+        if (present.has(stampKey(stamp))) continue;
+        present.add(stampKey(stamp));
+        added.push(op);
+        if (insertStamped(ops, stamps, op, stamp)) appended.push(op);
+        else rebuild = true;
+      }
+    }
+  }
+  return { ops, added, appended, rebuild };
+}
+
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/** The stack the entries describe, bottom → top. */
+export function stackFromEntries(entries: Iterable<PaintLayerEntry>) {
+  return [...entries]
+    .filter((e) => e.layer)
+    .sort((a, b) => a.position - b.position || compareIds(a.id, b.id))
+    .map((e) => e.layer!);
+}
+
+/** Takes in the entries newer than those known. True when there were any. */
+export function mergeLayerEntries(
+  entries: Map<string, PaintLayerEntry>,
+  incoming: PaintLayerEntry[],
+) {
+  let changed = false;
+  for (const entry of incoming) {
+    const known = entries.get(entry.id);
+    if (known && compareStamps(known, entry) >= 0) continue;
+    entries.set(entry.id, entry);
+    changed = true;
+  }
+  return changed;
+}
+
+const sameLayer = (a: PaintLayer, b: PaintLayer) =>
+  a.name === b.name &&
+  a.visible === b.visible &&
+  a.opacity === b.opacity &&
+  a.blendMode === b.blendMode;
+
+// Positions for a stack in this order. Known positions that still rise up
+// the stack are kept; the other layers are spread between their neighbours.
+function placeLayers(ids: string[], entries: Map<string, PaintLayerEntry>) {
+  const positions: Array<number | undefined> = [];
+  let last = -Infinity;
+  for (const id of ids) {
+    const entry = entries.get(id);
+    if (entry?.layer && entry.position > last) {
+      last = entry.position;
+      positions.push(last);
+    } else {
+      positions.push(undefined);
+    }
+  }
+  for (let i = 0; i < ids.length; ) {
+    if (positions[i] !== undefined) {
+      i++;
+      continue;
+    }
+    let j = i;
+    while (j < ids.length && positions[j] === undefined) j++;
+    const run = j - i + 1;
+    const after = positions[j];
+    const lo = i > 0 ? positions[i - 1]! : (after ?? 0) - run;
+    const hi = after ?? lo + run;
+    for (let k = i; k < j; k++) {
+      positions[k] = lo + ((hi - lo) * (k - i + 1)) / run;
+    }
+    i = j;
+  }
+  return positions as number[];
+}
+
+/**
+ * Entries for the differences between the stack `entries` describe and
+ * `layers`: layers added, changed or moved, and removed ones as null. Only
+ * the layers that moved get new positions, so the rest keep their stamps.
+ */
+export function layerChanges(
+  entries: Map<string, PaintLayerEntry>,
+  layers: PaintLayer[],
+  stamp: () => PaintOpStamp,
+) {
+  const changes: PaintLayerEntry[] = [];
+  const positions = placeLayers(layers.map((l) => l.id), entries);
+  layers.forEach((layer, i) => {
+    const entry = entries.get(layer.id);
+    const position = positions[i];
+    const unchanged =
+      entry?.layer &&
+      entry.position === position &&
+      sameLayer(entry.layer, layer);
+    if (unchanged) return;
+    changes.push({ ...stamp(), id: layer.id, layer: { ...layer }, position });
+  });
+  const ids = new Set(layers.map((l) => l.id));
+  for (const entry of entries.values()) {
+    if (!entry.layer || ids.has(entry.id)) continue;
+    changes.push({ ...stamp(), id: entry.id, layer: null, position: 0 });
+  }
+  return changes;
+}
+
+/** A random peer id. */
+export function createPeerId() {
+  return typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : Math.random().toString(36).slice(2);
+}
+
+/** A colour for a peer's cursor that stays the same for their id. */
+export function peerColor(id: string) {
+  let hash = 0;
+  for (let i = 0; i < id.length; i++) {
+    hash = (hash * 31 + id.charCodeAt(i)) | 0;
+  }
+  return `hsl(${Math.abs(hash) % 360}, 70%, 45%)`;
+}
+
+/**
+ * Peers in other tabs and windows of the same origin, over a
+ * `BroadcastChannel` called `name`. `close` leaves the channel.
+ */
+export function createBroadcastChannelAdapter(name = "mdcrty-paint") {
+  const channel = new BroadcastChannel(name);
+  const listeners = new Set<(message: PaintCollabMessage) => void>();
+  channel.onmessage = (ev: MessageEvent<PaintCollabMessage>) => {
+    for (const listener of listeners) listener(ev.data);
+  };
+  return {
+    send: (message: PaintCollabMessage) => channel.postMessage(message),
+    subscribe(listener: (message: PaintCollabMessage) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => channel.close(),
+  } satisfies PaintCollabAdapter & { close(): void };
+}
+
+/**
+ * The parts of a `WebSocket` the WebSocket adapter uses, so anything shaped
+ * like one will do.
+ */
+export type WebSocketLike = {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  addEventListener(
+    type: "open" | "close" | "error",
+    listener: () => void,
+  ): void;
+  addEventListener(
+    type: "message",
+    listener: (ev: { data: unknown }) => void,
+  ): void;
+};
+
+// WebSocket.CONNECTING and OPEN, which aren't defined outside browsers
+const CONNECTING = 0;
+const OPEN = 1;
+
+/**
+ * Peers connected to the same WebSocket server, which only has to relay each
+ * text message to every other client. Takes the server's URL or a socket;
+ * messages sent before it opens are queued, except presence, which is
+ * stale by then. Everything else is needed for peers to end up with the
+ * same board, so none of it is dropped while connecting. The queue is
+ * dropped if the socket closes or fails first, and nothing is sent once it
+ * has. `close` closes the socket.
+ */
+export function createWebSocketAdapter(socket: string | URL | WebSocketLike) {
+  const ws: WebSocketLike =
+    typeof socket === "string" || socket instanceof URL
+      ? new WebSocket(socket)
+      : socket;
+  const listeners = new Set<(message: PaintCollabMessage) => void>();
+  let queue: string[] = [];
+  ws.addEventListener("open", () => {
+    for (const data of queue) ws.send(data);
+    queue = [];
+  });
+  ws.addEventListener("close", () => {
+    queue = [];
+  });
+  ws.addEventListener("error", () => {
+    queue = [];
+  });
+  ws.addEventListener("message", (ev) => {
+    if (typeof ev.data !== "string") return;
+    let message: PaintCollabMessage;
+    try {
+      message = JSON.parse(ev.data);
+    } catch {
+      return;
+    }
+    for (const listener of listeners) listener(message);
+  });
+  return {
+    send(message: PaintCollabMessage) {
+      if (ws.readyState === OPEN) {
+        ws.send(JSON.stringify(message));
+      } else if (ws.readyState === CONNECTING && message.type !== "presence") {
+        queue.push(JSON.stringify(message));
+      }
+    },
+    subscribe(listener: (message: PaintCollabMessage) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => ws.close(),
+  } satisfies PaintCollabAdapter & { close(): void };
+}
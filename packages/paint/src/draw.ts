@@ -0,0 +1,139 @@
+import type { PixelRect } from "./history";
+
+/** Either flavour of 2D context — drawing helpers work on both. */
+export type Ctx2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Creates a canvas for scratch work: a detached `<canvas>` where the DOM is
+ * available, otherwise an `OffscreenCanvas` (workers, headless rendering).
+ */
+export function createCanvas(
+  width: number,
+  height: number,
+): HTMLCanvasElement | OffscreenCanvas {
+  if (typeof document !== "undefined") {
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    return canvas;
+  }
+  return new OffscreenCanvas(width, height);
+}
+
+/** `getContext("2d")` for either canvas flavour. */
+export function get2d(canvas: HTMLCanvasElement | OffscreenCanvas): Ctx2D {
+  return canvas.getContext("2d") as Ctx2D;
+}
+
+/**
+ * Parses any valid CSS colour string (hex, rgb, named, etc.) to RGBA by
+ * painting it into a tiny offscreen canvas.
+ */
+export function parseColor(color: string): [number, number, number, number] {
+  const tc = get2d(createCanvas(1, 1));
+  tc.fillStyle = color;
+  tc.fillRect(0, 0, 1, 1);
+  const d = tc.getImageData(0, 0, 1, 1).data;
+  return [d[0], d[1], d[2], d[3]];
+}
+
+/**
+ * Draws a smooth bezier path through accumulated points onto the given context.
+ * Falls back to a filled dot for fewer than 3 points.
+ */
+export function drawBezierPath(
+  ctx: Ctx2D,
+  pts: Array<{ x: number; y: number }>,
+) {
+  if (pts.length < 3) {
+    const b = pts[0];
+    ctx.beginPath();
+    ctx.arc(b.x, b.y, ctx.lineWidth / 2, 0, Math.PI * 2, true);
+    ctx.fill();
+    ctx.closePath();
+    return;
+  }
+
+  ctx.beginPath();
+  ctx.moveTo(pts[0].x, pts[0].y);
+
+  let i;
+  for (i = 1; i < pts.length - 2; i++) {
+    const c = (pts[i].x + pts[i + 1].x) / 2;
+    const d = (pts[i].y + pts[i + 1].y) / 2;
+    ctx.quadraticCurveTo(pts[i].x, pts[i].y, c, d);
+  }
+  ctx.quadraticCurveTo(pts[i].x, pts[i].y, pts[i + 1].x, pts[i + 1].y);
+  ctx.stroke();
+}
+
+/**
+ * Draws a variable-width stroke where each point carries its own width `w`
+ * (from pointer pressure). Because a single canvas path can only have one
+ * `lineWidth`, each midpoint-smoothed segment is stroked individually with the
+ * average width of its endpoints; round caps/joins keep the segments continuous.
+ * Falls back to a filled dot for fewer than 3 points.
+ */
+export function drawVariablePath(
+  ctx: Ctx2D,
+  pts: Array<{ x: number; y: number; w: number }>,
+) {
+  if (pts.length < 3) {
+    const b = pts[0];
+    ctx.beginPath();
+    ctx.arc(b.x, b.y, b.w / 2, 0, Math.PI * 2, true);
+    ctx.fill();
+    ctx.closePath();
+    return;
+  }
+
+  let i;
+  for (i = 1; i < pts.length - 2; i++) {
+    const cx0 = (pts[i].x + pts[i + 1].x) / 2;
+    const cy0 = (pts[i].y + pts[i + 1].y) / 2;
+    const px = (pts[i - 1].x + pts[i].x) / 2;
+    const py = (pts[i - 1].y + pts[i].y) / 2;
+    ctx.beginPath();
+    ctx.lineWidth = (pts[i].w + pts[i + 1].w) / 2;
+    ctx.moveTo(px, py);
+    ctx.quadraticCurveTo(pts[i].x, pts[i].y, cx0, cy0);
+    ctx.stroke();
+  }
+  // Final segment to the last point
+  ctx.beginPath();
+  ctx.lineWidth = (pts[i].w + pts[i + 1].w) / 2;
+  ctx.moveTo((pts[i - 1].x + pts[i].x) / 2, (pts[i - 1].y + pts[i].y) / 2);
+  ctx.quadraticCurveTo(pts[i].x, pts[i].y, pts[i + 1].x, pts[i + 1].y);
+  ctx.stroke();
+}
+
+/**
+ * What a fill on `ctx` should see: `backdrop` (e.g. the background image's
+ * canvas) with `ctx`'s own pixels over it. Pass the result to `floodFill` as
+ * its boundary.
+ */
+export function composeOver(ctx: Ctx2D, backdrop: CanvasImageSource) {
+  const { width, height } = ctx.canvas;
+  const out = get2d(createCanvas(width, height));
+  out.drawImage(backdrop, 0, 0, width, height);
+  out.drawImage(ctx.canvas, 0, 0);
+  return out.getImageData(0, 0, width, height);
+}
+
+/** Bounding box of `ctx`'s non-transparent pixels, or null if it's blank. */
+export function contentBounds(ctx: Ctx2D): PixelRect | null {
+  const { width: w, height: h } = ctx.canvas;
+  const data = ctx.getImageData(0, 0, w, h).data;
+  let minX = w, minY = h, maxX = -1, maxY = -1;
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      if (data[(y * w + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+}
@@ -0,0 +1,60 @@
+import { createCanvas, get2d } from "./draw";
+import type { PaintLayer } from "./layers";
+
+const hex = (v: number) => Math.round(v).toString(16).padStart(2, "0");
+
+/**
+ * The colour shown at (`x`, `y`): the visible `layers` over `backdrop` (the
+ * background image), averaged over the pixels within `radius` of it. All in
+ * canvas pixels. Transparent pixels count for less, by their alpha; over
+ * nothing at all it's null. Opaque colours come back as `#RRGGBB`, others
+ * as `rgba()`.
+ */
+export function sampleColor(
+  layers: PaintLayer[],
+  canvasFor: (id: string) => CanvasImageSource | undefined,
+  backdrop: CanvasImageSource | undefined,
+  x: number,
+  y: number,
+  radius = 0,
+): string | null {
+  const r = Math.max(0, Math.round(radius));
+  const size = r * 2 + 1;
+  const sx = Math.round(x) - r;
+  const sy = Math.round(y) - r;
+
+  // Only the few pixels around the point are composited
+  const out = get2d(createCanvas(size, size));
+  const copy = (source: CanvasImageSource) =>
+    out.drawImage(source, sx, sy, size, size, 0, 0, size, size);
+  if (backdrop) copy(backdrop);
+  for (const layer of layers) {
+    const canvas = canvasFor(layer.id);
+    if (!layer.visible || !canvas) continue;
+    out.globalAlpha = layer.opacity;
+    out.globalCompositeOperation = layer.blendMode;
+    copy(canvas);
+  }
+  const { data } = out.getImageData(0, 0, size, size);
+
+  // Premultiplied, so a half-transparent pixel counts half
+  let red = 0, green = 0, blue = 0, alpha = 0, count = 0;
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      if ((px - r) ** 2 + (py - r) ** 2 > r * r) continue;
+      const i = (py * size + px) * 4;
+      const a = data[i + 3];
+      red += data[i] * a;
+      green += data[i + 1] * a;
+      blue += data[i + 2] * a;
+      alpha += a;
+      count++;
+    }
+  }
+  if (alpha === 0) return null;
+  const rgb = [red / alpha, green / alpha, blue / alpha];
+  const a = alpha / count / 255;
+  return a >= 254.5 / 255
+    ? `#${rgb.map(hex).join("").toUpperCase()}`
+    : `rgba(${rgb.map(Math.round).join(", ")}, ${+a.toFixed(2)})`;
+}
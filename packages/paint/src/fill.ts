@@ -0,0 +1,559 @@
+import { createCanvas, get2d, parseColor, type Ctx2D } from "./draw";
+import type { PixelRect } from "./history";
+import { flattenLayers, type PaintLayer } from "./layers";
+
+// ─── Options ─────────────────────────────────────────────────────────────────
+
+/** Fill the connected region under the click, or every matching pixel. */
+export type PaintFillMode = "contiguous" | "global";
+
+/** Decide the region from the active layer alone, or everything visible. */
+export type PaintFillSample = "layer" | "merged";
+
+/**
+ * How colours are compared against the tolerance: the largest difference in
+ * any RGBA channel, or how different they look (CIELAB ΔE, with alpha).
+ */
+export type PaintFillDistance = "channel" | "perceptual";
+
+export type PaintFillPattern = "dots" | "stripes" | "checks" | "hatch";
+
+/** What a fill paints its region with, instead of the plain fill colour. */
+export type PaintFillPaint =
+  /** A built-in pattern in the fill colour, `size` units to a tile. */
+  | { type: "pattern"; pattern: PaintFillPattern; size: number }
+  /** An image tiled from the document's corner, at `scale`. */
+  | { type: "image"; src: string; scale: number }
+  /**
+   * The fill colour blending into `to` across the region, along `angle`
+   * degrees (0 runs left → right, 90 top → bottom).
+   */
+  | { type: "gradient"; to: string; angle: number };
+
+/** Bucket settings besides colour and tolerance. */
+export type PaintFillOptions = {
+  mode: PaintFillMode;
+  sample: PaintFillSample;
+  /**
+   * Close gaps up to this wide (in document units) in the outline around
+   * the region, so sketchy line art doesn't leak. 0 turns it off.
+   */
+  gap: number;
+  /** Blend the fill's edge into anti-aliased outlines, leaving no halo. */
+  antialias: boolean;
+  distance: PaintFillDistance;
+  /** Null paints the plain fill colour. */
+  paint: PaintFillPaint | null;
+};
+
+export const DEFAULT_FILL_OPTIONS: PaintFillOptions = {
+  mode: "contiguous",
+  sample: "layer",
+  gap: 0,
+  antialias: true,
+  distance: "channel",
+  paint: null,
+};
+
+// ─── Colour distance ─────────────────────────────────────────────────────────
+
+// sRGB 0–255 → CIELAB (D65)
+function toLab(r: number, g: number, b: number) {
+  const lin = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  };
+  const R = lin(r);
+  const G = lin(g);
+  const B = lin(b);
+  const f = (t: number) =>
+    t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+  const x = f((0.4124 * R + 0.3576 * G + 0.1805 * B) / 0.95047);
+  const y = f(0.2126 * R + 0.7152 * G + 0.0722 * B);
+  const z = f((0.0193 * R + 0.1192 * G + 0.9505 * B) / 1.08883);
+  return [116 * y - 16, 500 * (x - y), 200 * (y - z)];
+}
+
+/**
+ * Distance of each pixel (by byte offset into `data`) from `target`, on the
+ * same 0–255 scale as the tolerance.
+ */
+function distanceFrom(
+  data: Uint8ClampedArray,
+  target: number,
+  kind: PaintFillDistance,
+) {
+  const tr = data[target];
+  const tg = data[target + 1];
+  const tb = data[target + 2];
+  const ta = data[target + 3];
+
+  if (kind === "channel") {
+    return (i: number) =>
+      Math.max(
+        Math.abs(data[i] - tr),
+        Math.abs(data[i + 1] - tg),
+        Math.abs(data[i + 2] - tb),
+        Math.abs(data[i + 3] - ta),
+      );
+  }
+
+  const [tl, tA, tB] = toLab(tr, tg, tb);
+  // Drawings reuse few colours, so each is converted once
+  const deltas = new Map<number, number>();
+  return (i: number) => {
+    const rgb = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    let delta = deltas.get(rgb);
+    if (delta === undefined) {
+      const [l, a, b] = toLab(data[i], data[i + 1], data[i + 2]);
+      delta = Math.hypot(l - tl, a - tA, b - tB);
+      deltas.set(rgb, delta);
+    }
+    // ΔE 100 is about black against white. Colour stops mattering as
+    // either pixel turns transparent.
+    const alpha = data[i + 3];
+    return Math.max(
+      (delta * 2.55 * Math.min(alpha, ta)) / 255,
+      Math.abs(alpha - ta),
+    );
+  };
+}
+
+// ─── Region ──────────────────────────────────────────────────────────────────
+
+/** The pixels a fill takes, in canvas pixels. */
+export type FillRegion = {
+  /** 1 for each pixel in the region, row by row. */
+  mask: Uint8Array;
+  rect: PixelRect;
+  /** Distance of the pixel at index `pi` from the clicked colour. */
+  distanceAt: (pi: number) => number;
+};
+
+/** Scanline fill of the `open` pixels connected to `seed`. */
+function floodMask(open: Uint8Array, w: number, h: number, seed: number) {
+  const out = new Uint8Array(w * h);
+  const stack = [seed];
+  while (stack.length > 0) {
+    const pi = stack.pop()!;
+    if (out[pi] || !open[pi]) continue;
+    const y = (pi - (pi % w)) / w;
+    const row = y * w;
+    let l = pi;
+    while (l > row && open[l - 1] && !out[l - 1]) l--;
+    let r = pi;
+    while (r < row + w - 1 && open[r + 1] && !out[r + 1]) r++;
+    // Push one pixel per run of open pixels above and below
+    let above = false;
+    let below = false;
+    for (let i = l; i <= r; i++) {
+      out[i] = 1;
+      if (y > 0) {
+        const a = i - w;
+        const next = open[a] === 1 && !out[a];
+        if (next && !above) stack.push(a);
+        above = next;
+      }
+      if (y < h - 1) {
+        const b = i + w;
+        const next = open[b] === 1 && !out[b];
+        if (next && !below) stack.push(b);
+        below = next;
+      }
+    }
+  }
+  return out;
+}
+
+/** Grows `mask` by `r` pixels in every direction (a square brush). */
+function dilate(mask: Uint8Array, w: number, h: number, r: number) {
+  // Rows, then columns: a pixel is set if any within `r` of it is
+  const pass = (
+    src: Uint8Array,
+    along: number,
+    across: number,
+    step: number,
+    stride: number,
+  ) => {
+    const out = new Uint8Array(w * h);
+    for (let j = 0; j < across; j++) {
+      const base = j * stride;
+      let count = 0;
+      for (let k = 0; k < Math.min(r, along); k++) {
+        count += src[base + k * step];
+      }
+      for (let k = 0; k < along; k++) {
+        if (k + r < along) count += src[base + (k + r) * step];
+        if (k - r - 1 >= 0) count -= src[base + (k - r - 1) * step];
+        out[base + k * step] = count > 0 ? 1 : 0;
+      }
+    }
+    return out;
+  };
+  return pass(pass(mask, w, h, 1, w), h, w, w, 1);
+}
+
+/**
+ * Grows `mask` up to `steps` pixels (sideways, never diagonally, so it can't
+ * slip between the pixels of a thin line) through `open` pixels only.
+ */
+function growWithin(
+  mask: Uint8Array,
+  open: Uint8Array,
+  w: number,
+  h: number,
+  steps: number,
+) {
+  const out = mask.slice();
+  let frontier: number[] = [];
+  for (let pi = 0; pi < out.length; pi++) {
+    const x = pi % w;
+    if (
+      !out[pi] &&
+      open[pi] &&
+      ((x > 0 && out[pi - 1]) ||
+        (x < w - 1 && out[pi + 1]) ||
+        (pi >= w && out[pi - w]) ||
+        (pi < w * (h - 1) && out[pi + w]))
+    ) {
+      frontier.push(pi);
+    }
+  }
+  for (let step = 0; step < steps && frontier.length > 0; step++) {
+    const next: number[] = [];
+    for (const pi of frontier) {
+      if (out[pi]) continue;
+      out[pi] = 1;
+      const x = pi % w;
+      if (x > 0) next.push(pi - 1);
+      if (x < w - 1) next.push(pi + 1);
+      if (pi >= w) next.push(pi - w);
+      if (pi < w * (h - 1)) next.push(pi + w);
+    }
+    frontier = next.filter((pi) => !out[pi] && open[pi]);
+  }
+  return out;
+}
+
+function maskBounds(mask: Uint8Array, w: number): PixelRect | null {
+  let minX = w, minY = Infinity, maxX = -1, maxY = -1;
+  for (let pi = 0; pi < mask.length; pi++) {
+    if (!mask[pi]) continue;
+    const x = pi % w;
+    const y = (pi - x) / w;
+    if (x < minX) minX = x;
+    if (x > maxX) maxX = x;
+    if (y < minY) minY = y;
+    maxY = y;
+  }
+  if (maxX < 0) return null;
+  return { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+}
+
+/**
+ * The region a fill at (`x`, `y`) takes over `edges`, in canvas pixels:
+ * pixels within `tolerance` of the clicked one, connected to it (or anywhere
+ * in `global` mode). `gap` is in canvas pixels here.
+ */
+export function fillRegion(
+  edges: ImageData,
+  x: number,
+  y: number,
+  {
+    tolerance,
+    mode = "contiguous",
+    gap = 0,
+    distance = "channel",
+  }: {
+    tolerance: number;
+  } & Partial<Pick<PaintFillOptions, "mode" | "gap" | "distance">>,
+): FillRegion | null {
+  const { width: w, height: h, data } = edges;
+  const x0 = Math.round(x);
+  const y0 = Math.round(y);
+  if (x0 < 0 || x0 >= w || y0 < 0 || y0 >= h) return null;
+  const seed = y0 * w + x0;
+
+  const d = distanceFrom(data, seed * 4, distance);
+  const distanceAt = (pi: number) => d(pi * 4);
+  const open = new Uint8Array(w * h);
+  for (let pi = 0; pi < open.length; pi++) {
+    open[pi] = distanceAt(pi) <= tolerance ? 1 : 0;
+  }
+
+  let mask = open;
+  if (mode === "contiguous") {
+    const r = Math.ceil(gap / 2);
+    // Thicken the outline so gaps up to `gap` wide close and fill inside
+    // it, then grow back out to the real outline. Growing only through the
+    // thickened band keeps it from spilling far out through a gap.
+    const walls = r > 0 ? dilate(open.map((v) => 1 - v), w, h, r) : null;
+    if (walls && !walls[seed]) {
+      const closed = open.map((v, i) => v & (1 - walls[i]));
+      const band = open.map((v, i) => v & walls[i]);
+      mask = growWithin(floodMask(closed, w, h, seed), band, w, h, 2 * r);
+    } else {
+      mask = floodMask(open, w, h, seed);
+    }
+  }
+
+  const rect = maskBounds(mask, w);
+  return rect && { mask, rect, distanceAt };
+}
+
+// ─── Painting ────────────────────────────────────────────────────────────────
+
+// One tile of a built-in pattern, `size` canvas pixels square
+function patternTile(pattern: PaintFillPattern, color: string, size: number) {
+  const t = get2d(createCanvas(size, size));
+  t.fillStyle = color;
+  t.strokeStyle = color;
+  t.lineWidth = Math.max(1, size / 8);
+  const s = size;
+  if (pattern === "dots") {
+    t.beginPath();
+    t.arc(s / 2, s / 2, s / 4, 0, Math.PI * 2);
+    t.fill();
+  } else if (pattern === "checks") {
+    t.fillRect(0, 0, s / 2, s / 2);
+    t.fillRect(s / 2, s / 2, s / 2, s / 2);
+  } else {
+    // Diagonals drawn past the corners so they join up across tiles
+    t.beginPath();
+    for (const o of [-s, 0, s]) {
+      t.moveTo(o, s);
+      t.lineTo(o + s, 0);
+      if (pattern === "hatch") {
+        t.moveTo(o, 0);
+        t.lineTo(o + s, s);
+      }
+    }
+    t.stroke();
+  }
+  return t.canvas;
+}
+
+/**
+ * Renders `paint` (in `color`) over a `width` × `height` canvas at `scale`
+ * pixels per document unit, for `floodFill` to copy the region from.
+ * Patterns tile from the document's corner; a gradient spans the region.
+ */
+export function renderFillPaint(
+  paint: PaintFillPaint,
+  color: string,
+  width: number,
+  height: number,
+  scale: number,
+  imageFor: (src: string) => CanvasImageSource | undefined,
+) {
+  return (region: PixelRect) => {
+    const t = get2d(createCanvas(width, height));
+    if (paint.type === "gradient") {
+      const a = (paint.angle * Math.PI) / 180;
+      const cx = region.x + region.w / 2;
+      const cy = region.y + region.h / 2;
+      // Half the region's extent along the angle
+      const reach =
+        (Math.abs(region.w * Math.cos(a)) + Math.abs(region.h * Math.sin(a))) /
+        2;
+      const g = t.createLinearGradient(
+        cx - Math.cos(a) * reach,
+        cy - Math.sin(a) * reach,
+        cx + Math.cos(a) * reach,
+        cy + Math.sin(a) * reach,
+      );
+      g.addColorStop(0, color);
+      g.addColorStop(1, paint.to);
+      t.fillStyle = g;
+    } else {
+      const image =
+        paint.type === "image"
+          ? imageFor(paint.src)
+          : patternTile(
+              paint.pattern,
+              color,
+              Math.max(2, Math.round(paint.size * scale)),
+            );
+      const pattern = image && t.createPattern(image, "repeat");
+      // An image that isn't loaded fills with nothing, like an image op
+      if (!pattern) return t.getImageData(0, 0, width, height);
+      if (paint.type === "image") {
+        pattern.setTransform(new DOMMatrix().scale(paint.scale * scale));
+      }
+      t.fillStyle = pattern;
+    }
+    t.fillRect(0, 0, width, height);
+    return t.getImageData(0, 0, width, height);
+  };
+}
+
+/**
+ * Paints a fill onto `ctx`, in canvas pixels. The region comes from
+ * `boundary` when given (e.g. the layer over a background image, or all
+ * visible layers), otherwise from `ctx` itself; it's written to `ctx` either
+ * way. `paint` supplies the pixels of a patterned or gradient fill for the
+ * whole canvas, given the region's bounds; without it the region takes
+ * `fillColor`.
+ *
+ * Without `antialias`, semi-transparent pixels next to the region are filled
+ * outright, closing the fringe scanline fills leave at stroke edges. With it,
+ * pixels next to the region take the fill in proportion to how close they
+ * are to the clicked colour, so it blends into anti-aliased outlines.
+ *
+ * Returns the rect of changed pixels (the undo dirty rect), or null.
+ */
+export function floodFill(
+  ctx: Ctx2D,
+  startX: number,
+  startY: number,
+  fillColor: string,
+  tolerance: number,
+  {
+    boundary,
+    paint,
+    antialias = false,
+    ...regionOptions
+  }: {
+    boundary?: ImageData;
+    paint?: (region: PixelRect) => ImageData;
+    antialias?: boolean;
+  } & Partial<Pick<PaintFillOptions, "mode" | "gap" | "distance">> = {},
+): PixelRect | null {
+  const { width: w, height: h } = ctx.canvas;
+  const imageData = ctx.getImageData(0, 0, w, h);
+  const data = imageData.data;
+  // Pixels the region is matched against (never written)
+  const edgeData = boundary ?? imageData;
+  const edges = edgeData.data;
+
+  const [fr, fg, fb, fa] = parseColor(fillColor);
+  const si = (Math.round(startY) * w + Math.round(startX)) * 4;
+  // Already the fill colour — nothing to do
+  if (
+    !paint &&
+    edges[si] === fr &&
+    edges[si + 1] === fg &&
+    edges[si + 2] === fb &&
+    edges[si + 3] === fa
+  ) {
+    return null;
+  }
+
+  const region = fillRegion(edgeData, startX, startY, {
+    tolerance,
+    ...regionOptions,
+  });
+  if (!region) return null;
+  const { mask, distanceAt } = region;
+  const source = paint?.(region.rect).data ?? null;
+  const solid = [fr, fg, fb, fa];
+
+  // Track filled pixels so the edge pass can find them
+  const filled = new Uint8Array(w * h);
+  // Bounding box of everything written — returned as the undo dirty rect
+  let minX = w, minY = h, maxX = -1, maxY = -1;
+  const touch = (pi: number) => {
+    const px = pi % w;
+    const py = (pi - px) / w;
+    if (px < minX) minX = px;
+    if (px > maxX) maxX = px;
+    if (py < minY) minY = py;
+    if (py > maxY) maxY = py;
+  };
+
+  const setPixel = (pi: number) => {
+    const i = pi * 4;
+    const src = source ?? solid;
+    const s = source ? i : 0;
+    data[i] = src[s];
+    data[i + 1] = src[s + 1];
+    data[i + 2] = src[s + 2];
+    data[i + 3] = src[s + 3];
+    filled[pi] = 1;
+    touch(pi);
+  };
+
+  for (let pi = 0; pi < mask.length; pi++) if (mask[pi]) setPixel(pi);
+
+  if (!antialias) {
+    // Post-fill pass: any semi-transparent pixel (alpha < 200) directly
+    // adjacent to a filled pixel is also filled.
+    for (let py = 0; py < h; py++) {
+      for (let px = 0; px < w; px++) {
+        const pi = py * w + px;
+        if (!filled[pi]) continue;
+        if (px > 0 && !filled[pi - 1] && edges[(pi - 1) * 4 + 3] < 200)
+          setPixel(pi - 1);
+        if (px < w - 1 && !filled[pi + 1] && edges[(pi + 1) * 4 + 3] < 200)
+          setPixel(pi + 1);
+        if (py > 0 && !filled[pi - w] && edges[(pi - w) * 4 + 3] < 200)
+          setPixel(pi - w);
+        if (py < h - 1 && !filled[pi + w] && edges[(pi + w) * 4 + 3] < 200)
+          setPixel(pi + w);
+      }
+    }
+  } else {
+    // Pixels beyond the tolerance take less of the fill the further off
+    // they are, reaching none at the opposite extreme
+    const band = Math.max(1, 255 - tolerance);
+    const { x, y, w: rw, h: rh } = region.rect;
+    for (let py = Math.max(0, y - 1); py < Math.min(h, y + rh + 1); py++) {
+      for (let px = Math.max(0, x - 1); px < Math.min(w, x + rw + 1); px++) {
+        const pi = py * w + px;
+        if (mask[pi]) continue;
+        const edge =
+          (px > 0 && mask[pi - 1]) ||
+          (px < w - 1 && mask[pi + 1]) ||
+          (py > 0 && mask[pi - w]) ||
+          (py < h - 1 && mask[pi + w]);
+        if (!edge) continue;
+        const cover = 1 - (distanceAt(pi) - tolerance) / band;
+        if (cover <= 0) continue;
+        const i = pi * 4;
+        const cap = Math.min(1, cover);
+        blendPixel(data, i, source ?? solid, source ? i : 0, cap);
+        touch(pi);
+      }
+    }
+  }
+
+  if (maxX < 0) return null;
+  const rect = { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+  ctx.putImageData(imageData, 0, 0, rect.x, rect.y, rect.w, rect.h);
+  return rect;
+}
+
+// Mixes `src[s]` into `data[i]` over it at `cover`, both unpremultiplied RGBA
+function blendPixel(
+  data: Uint8ClampedArray,
+  i: number,
+  src: ArrayLike<number>,
+  s: number,
+  cover: number,
+) {
+  const sa = (src[s + 3] / 255) * cover;
+  const da = (data[i + 3] / 255) * (1 - sa);
+  const a = sa + da;
+  if (a === 0) return;
+  for (let c = 0; c < 3; c++) {
+    data[i + c] = (src[s + c] * sa + data[i + c] * da) / a;
+  }
+  data[i + 3] = a * 255;
+}
+
+/**
+ * What a `merged` fill sees on a `width` × `height` canvas: the visible
+ * `layers` flattened over `backdrop` (the background image), if any.
+ */
+export function composeMerged(
+  width: number,
+  height: number,
+  layers: PaintLayer[],
+  canvasFor: (id: string) => CanvasImageSource | undefined,
+  backdrop?: CanvasImageSource,
+) {
+  const out = get2d(createCanvas(width, height));
+  if (backdrop) out.drawImage(backdrop, 0, 0, width, height);
+  flattenLayers(out, layers, canvasFor);
+  return out.getImageData(0, 0, width, height);
+}
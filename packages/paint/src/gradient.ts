@@ -0,0 +1,95 @@
+import type { Ctx2D } from "./draw";
+import type { PaintFillOptions } from "./fill";
+
+/**
+ * Linear runs from the drag's start to its end; radial spreads out from the
+ * start to a circle through the end; conic sweeps once round the start,
+ * beginning towards the end.
+ */
+export type PaintGradientKind = "linear" | "radial" | "conic";
+
+/** A colour at `offset`, 0 (the drag's start) to 1 (its end). */
+export type PaintGradientStop = { offset: number; color: string };
+
+/** Settings for the gradient tool. */
+export type PaintGradientOptions = {
+  kind: PaintGradientKind;
+  /** Two or more, in offset order. */
+  stops: PaintGradientStop[];
+  /**
+   * Paint only the region a bucket fill at the drag's start would take,
+   * found with the bucket's tolerance and options.
+   */
+  clip: boolean;
+};
+
+export const DEFAULT_GRADIENT_OPTIONS: PaintGradientOptions = {
+  kind: "linear",
+  stops: [
+    { offset: 0, color: "#000" },
+    { offset: 1, color: "#FFF" },
+  ],
+  clip: false,
+};
+
+export const PAINT_GRADIENT_KINDS: PaintGradientKind[] = [
+  "linear",
+  "radial",
+  "conic",
+];
+
+/** The region a clipped gradient was limited to, seeded at its start. */
+export type GradientClip = { tolerance: number } & Partial<
+  Omit<PaintFillOptions, "paint">
+>;
+
+/** A gradient's geometry: the drag from (x0, y0) to (x1, y1). */
+export type GradientGeometry = {
+  kind: PaintGradientKind;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  stops: PaintGradientStop[];
+};
+
+/** Stops sorted by offset, with offsets kept within 0–1. */
+export const sortStops = (stops: PaintGradientStop[]) =>
+  stops
+    .map((s) => ({ ...s, offset: Math.min(1, Math.max(0, s.offset)) }))
+    .sort((a, b) => a.offset - b.offset);
+
+/**
+ * Fills `width` × `height` (in the context's current units) with the
+ * gradient. Beyond its ends a linear or radial gradient keeps its end
+ * colours.
+ */
+export function drawGradient(
+  ctx: Ctx2D,
+  g: GradientGeometry,
+  width: number,
+  height: number,
+) {
+  const radius = Math.hypot(g.x1 - g.x0, g.y1 - g.y0);
+  const gradient =
+    g.kind === "radial"
+      ? ctx.createRadialGradient(g.x0, g.y0, 0, g.x0, g.y0, radius)
+      : g.kind === "conic"
+        ? ctx.createConicGradient(
+            Math.atan2(g.y1 - g.y0, g.x1 - g.x0),
+            g.x0,
+            g.y0,
+          )
+        : ctx.createLinearGradient(g.x0, g.y0, g.x1, g.y1);
+  for (const stop of sortStops(g.stops)) {
+    gradient.addColorStop(stop.offset, stop.color);
+  }
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, width, height);
+}
+
+/** The stops as a CSS `linear-gradient`, left → right, for swatches. */
+export const cssGradient = (stops: PaintGradientStop[]) =>
+  `linear-gradient(to right, ${sortStops(stops)
+    .map((s) => `${s.color} ${s.offset * 100}%`)
+    .join(", ")})`;
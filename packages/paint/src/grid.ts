@@ -0,0 +1,147 @@
+import type { Ctx2D } from "./draw";
+
+/** Square cells, or the triangles of an isometric grid. */
+export type PaintGridKind = "square" | "isometric";
+
+/** A ruler guide: a line across the document at `position`. */
+export type PaintGuide = {
+  orientation: "horizontal" | "vertical";
+  /** In document units: a y for horizontal guides, an x for vertical. */
+  position: number;
+};
+
+/**
+ * The overlay grid, ruler guides and snapping. Only ever shown over the
+ * canvas, never part of the drawing or its exports.
+ */
+export type PaintGrid = {
+  /** Show the grid over the canvas. */
+  show: boolean;
+  kind: PaintGridKind;
+  /** Cell size, or an isometric triangle's side, in document units. */
+  spacing: number;
+  color: string;
+  /** Show the guides, and rulers along the stage's edges to drag them from. */
+  rulers: boolean;
+  guides: PaintGuide[];
+  /** Snap shape and line ends to the grid while it's shown, and to guides. */
+  snap: boolean;
+};
+
+export const DEFAULT_GRID: PaintGrid = {
+  show: false,
+  kind: "square",
+  spacing: 20,
+  color: "rgba(0, 0, 0, 0.15)",
+  rulers: false,
+  guides: [],
+  snap: true,
+};
+
+export const PAINT_GRID_KINDS: PaintGridKind[] = ["square", "isometric"];
+
+// Columns of an isometric grid are this many sides apart
+const ISO_COLUMN = Math.sqrt(3) / 2;
+
+const gridSpacing = (grid: PaintGrid) => Math.max(2, grid.spacing);
+
+/**
+ * Draws `grid` over a `width` × `height` document on `ctx`, which draws in
+ * document units at `scale` canvas pixels each. Lines are a canvas pixel
+ * wide whatever the scale.
+ */
+export function drawGrid(
+  ctx: Ctx2D,
+  grid: PaintGrid,
+  width: number,
+  height: number,
+  scale: number,
+) {
+  ctx.clearRect(0, 0, width, height);
+  if (!grid.show) return;
+  const s = gridSpacing(grid);
+  ctx.save();
+  ctx.strokeStyle = grid.color;
+  ctx.lineWidth = 1 / scale;
+  ctx.beginPath();
+  // Lines on pixel centres, so they stay one pixel wide
+  const crisp = (v: number) => (Math.round(v * scale) + 0.5) / scale;
+  if (grid.kind === "square") {
+    for (let x = s; x < width; x += s) {
+      ctx.moveTo(crisp(x), 0);
+      ctx.lineTo(crisp(x), height);
+    }
+    for (let y = s; y < height; y += s) {
+      ctx.moveTo(0, crisp(y));
+      ctx.lineTo(width, crisp(y));
+    }
+  } else {
+    // Vertical lines, and lines at ±30° through the same points
+    const column = s * ISO_COLUMN;
+    for (let x = column; x < width; x += column) {
+      ctx.moveTo(crisp(x), 0);
+      ctx.lineTo(crisp(x), height);
+    }
+    const rise = width / Math.sqrt(3);
+    for (let y = -Math.ceil(rise / s) * s; y < height + rise; y += s) {
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y + rise);
+      ctx.moveTo(0, y);
+      ctx.lineTo(width, y - rise);
+    }
+  }
+  ctx.stroke();
+  ctx.restore();
+}
+
+// The grid point nearest (x, y): a cell corner, or a triangle's
+function snapToGrid(grid: PaintGrid, x: number, y: number) {
+  const s = gridSpacing(grid);
+  if (grid.kind === "square") {
+    return { x: Math.round(x / s) * s, y: Math.round(y / s) * s };
+  }
+  // Each column's points are a side apart, odd columns offset by half a side
+  const column = s * ISO_COLUMN;
+  let best = { x, y };
+  let bestDist = Infinity;
+  for (const i of [Math.floor(x / column), Math.ceil(x / column)]) {
+    const offset = i % 2 ? s / 2 : 0;
+    const px = i * column;
+    const py = Math.round((y - offset) / s) * s + offset;
+    const dist = Math.hypot(px - x, py - y);
+    if (dist < bestDist) {
+      best = { x: px, y: py };
+      bestDist = dist;
+    }
+  }
+  return best;
+}
+
+/**
+ * Where (x, y) snaps to: the nearest grid point while the grid is shown,
+ * then onto any guide within `reach` document units, which wins on its
+ * axis. Unchanged when snapping's off.
+ */
+export function snapPoint(
+  grid: PaintGrid,
+  x: number,
+  y: number,
+  reach: number,
+) {
+  if (!grid.snap) return { x, y };
+  const point = grid.show ? snapToGrid(grid, x, y) : { x, y };
+  if (!grid.rulers) return point;
+  let nearX = reach;
+  let nearY = reach;
+  for (const { orientation, position } of grid.guides) {
+    const dist = Math.abs((orientation === "vertical" ? x : y) - position);
+    if (orientation === "vertical" && dist <= nearX) {
+      point.x = position;
+      nearX = dist;
+    } else if (orientation === "horizontal" && dist <= nearY) {
+      point.y = position;
+      nearY = dist;
+    }
+  }
+  return point;
+}
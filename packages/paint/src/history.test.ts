@@ -0,0 +1,178 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import PaintHistory, { cropImageData, rectFromPoints } from "./history";
+import type { PaintOp } from "./paintDocument";
+
+// Enough of ImageData for the history, which only sizes and copies it
+class FakeImageData {
+  data: Uint8ClampedArray;
+  constructor(
+    public width: number,
+    public height: number,
+  ) {
+    this.data = new Uint8ClampedArray(width * height * 4);
+  }
+}
+
+const pixels = (w: number, h: number, value = 0) => {
+  const image = new FakeImageData(w, h);
+  image.data.fill(value);
+  return image as unknown as ImageData;
+};
+
+// A context that reads back opaque pixels and records what it's given
+function fakeContext() {
+  const ctx = {
+    puts: [] as Array<{ image: ImageData; x: number; y: number }>,
+    clears: 0,
+    getImageData: vi.fn((_x: number, _y: number, w: number, h: number) =>
+      pixels(w, h, 255),
+    ),
+    putImageData(image: ImageData, x: number, y: number) {
+      ctx.puts.push({ image, x, y });
+    },
+    clearRect() {
+      ctx.clears++;
+    },
+    save() {},
+    restore() {},
+    setTransform() {},
+  };
+  return ctx;
+}
+
+const asCtx = (ctx: ReturnType<typeof fakeContext>) =>
+  ctx as unknown as CanvasRenderingContext2D;
+
+const clear = (layer = "layer-1"): PaintOp => ({ type: "clear", layer });
+
+const rect = { x: 0, y: 0, w: 1, h: 1 };
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("PaintHistory", () => {
+  it("undoes and redoes, handing back the op", () => {
+    const history = new PaintHistory(10);
+    const ctx = fakeContext();
+    const before = pixels(1, 1);
+    const op = clear();
+    expect(history.canUndo).toBe(false);
+    history.push(asCtx(ctx), rect, before, op);
+    expect(history.canUndo).toBe(true);
+
+    expect(history.undo()).toBe(op);
+    expect(ctx.puts.at(-1)?.image).toBe(before);
+    expect(history.canUndo).toBe(false);
+    expect(history.canRedo).toBe(true);
+
+    expect(history.redo()).toBe(op);
+    expect(ctx.puts.at(-1)?.image.data[0]).toBe(255);
+    expect(history.undo()).toBe(op);
+    expect(history.undo()).toBeNull();
+  });
+
+  it("clears instead of storing pixels for cleared rects", () => {
+    const history = new PaintHistory(10);
+    const ctx = fakeContext();
+    history.push(asCtx(ctx), rect, pixels(1, 1), clear(), true);
+    expect(ctx.getImageData).not.toHaveBeenCalled();
+    history.undo();
+    history.redo();
+    expect(ctx.clears).toBe(1);
+  });
+
+  it("drops the redo stack on a new step", () => {
+    const history = new PaintHistory(10);
+    const ctx = asCtx(fakeContext());
+    history.push(ctx, rect, pixels(1, 1), clear());
+    history.undo();
+    history.push(ctx, rect, pixels(1, 1), clear());
+    expect(history.canRedo).toBe(false);
+  });
+
+  it("evicts the oldest steps past the limit", () => {
+    const history = new PaintHistory(2);
+    const ctx = asCtx(fakeContext());
+    const ops = [clear("a"), clear("b"), clear("c")];
+    for (const op of ops) history.push(ctx, rect, pixels(1, 1), op);
+    expect(history.undo()).toBe(ops[2]);
+    expect(history.undo()).toBe(ops[1]);
+    expect(history.undo()).toBeNull();
+  });
+
+  it("evicts the oldest steps past the byte cap, keeping the latest", () => {
+    const history = new PaintHistory(100);
+    // 48 MB before + 48 MB after per step: the third passes 128 MB
+    const side = 3464;
+    const big = { x: 0, y: 0, w: side, h: side };
+    const ctx = asCtx(fakeContext());
+    const ops = [clear("a"), clear("b"), clear("c")];
+    for (const op of ops) history.push(ctx, big, pixels(side, side), op);
+    expect(history.undo()).toBe(ops[2]);
+    expect(history.undo()).toBeNull();
+
+    // A single step over the cap is still kept
+    const single = new PaintHistory(100);
+    single.push(ctx, big, pixels(side, side), ops[0]);
+    expect(single.canUndo).toBe(true);
+  });
+
+  it("forgets the steps of a dropped layer", () => {
+    const history = new PaintHistory(10);
+    const a = asCtx(fakeContext());
+    const b = asCtx(fakeContext());
+    const kept = clear("b");
+    history.push(b, rect, pixels(1, 1), kept);
+    history.push(a, rect, pixels(1, 1), clear("a"));
+    history.drop(a);
+    expect(history.undo()).toBe(kept);
+    expect(history.canUndo).toBe(false);
+  });
+});
+
+describe("rectFromPoints", () => {
+  it("pads, scales and rounds outwards", () => {
+    const points = [
+      { x: 10.2, y: 20.7 },
+      { x: 15.5, y: 12 },
+    ];
+    expect(rectFromPoints(points, 2, 100, 100)).toEqual({
+      x: 8,
+      y: 10,
+      w: 10,
+      h: 13,
+    });
+    expect(rectFromPoints(points, 0, 100, 100, 2)).toEqual({
+      x: 20,
+      y: 24,
+      w: 11,
+      h: 18,
+    });
+  });
+
+  it("clamps to the canvas, and misses it entirely", () => {
+    expect(rectFromPoints([{ x: 1, y: 1 }], 5, 4, 4)).toEqual({
+      x: 0,
+      y: 0,
+      w: 4,
+      h: 4,
+    });
+    expect(rectFromPoints([{ x: 50, y: 50 }], 1, 10, 10)).toBeNull();
+    expect(rectFromPoints([], 1, 10, 10)).toBeNull();
+  });
+});
+
+describe("cropImageData", () => {
+  it("copies the rows of the rect", () => {
+    vi.stubGlobal("ImageData", FakeImageData);
+    const src = pixels(3, 2);
+    src.data.forEach((_, i) => (src.data[i] = i));
+    const out = cropImageData(src, { x: 1, y: 0, w: 2, h: 2 });
+    expect(out.width).toBe(2);
+    expect([...out.data]).toEqual([
+      ...[4, 5, 6, 7, 8, 9, 10, 11],
+      ...[16, 17, 18, 19, 20, 21, 22, 23],
+    ]);
+  });
+});
@@ -0,0 +1,164 @@
+import type { PaintOp } from "./paintDocument";
+
+/** Integer pixel rectangle on a canvas's backing store. */
+export type PixelRect = { x: number; y: number; w: number; h: number };
+
+/**
+ * One undoable change: the pixels of `rect` before and after it was applied.
+ * Only the dirty rectangle is kept, so a small stroke on a full-window canvas
+ * costs a few KB instead of a full-canvas snapshot. `after: null` means the
+ * rect was cleared to transparent (saves storing a blank buffer for `clear`).
+ * `op` is the document operation the change came from.
+ */
+type HistoryEntry = {
+  ctx: CanvasRenderingContext2D;
+  rect: PixelRect;
+  before: ImageData;
+  after: ImageData | null;
+  op: PaintOp;
+};
+
+/** Upper bound on the pixel data held across both stacks. */
+const HISTORY_MAX_BYTES = 128 * 1024 * 1024;
+
+const entryBytes = (e: HistoryEntry) =>
+  e.before.data.byteLength + (e.after?.data.byteLength ?? 0);
+
+/**
+ * Clamps the bounding box of `pts` (padded by `pad`) to the canvas and rounds
+ * outwards to whole pixels. `scale` maps the points' units to canvas pixels.
+ * Returns null when the box misses the canvas.
+ */
+export function rectFromPoints(
+  pts: Array<{ x: number; y: number }>,
+  pad: number,
+  width: number,
+  height: number,
+  scale = 1,
+): PixelRect | null {
+  if (pts.length === 0) return null;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of pts) {
+    if (p.x < minX) minX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y > maxY) maxY = p.y;
+  }
+  const x = Math.max(0, Math.floor((minX - pad) * scale));
+  const y = Math.max(0, Math.floor((minY - pad) * scale));
+  const x1 = Math.min(width, Math.ceil((maxX + pad) * scale));
+  const y1 = Math.min(height, Math.ceil((maxY + pad) * scale));
+  if (x1 <= x || y1 <= y) return null;
+  return { x, y, w: x1 - x, h: y1 - y };
+}
+
+/** Copies `rect` out of a larger ImageData (e.g. a full-canvas snapshot). */
+export function cropImageData(src: ImageData, rect: PixelRect): ImageData {
+  const out = new ImageData(rect.w, rect.h);
+  const rowBytes = rect.w * 4;
+  for (let row = 0; row < rect.h; row++) {
+    const start = ((rect.y + row) * src.width + rect.x) * 4;
+    out.data.set(src.data.subarray(start, start + rowBytes), row * rowBytes);
+  }
+  return out;
+}
+
+/**
+ * Bounded undo/redo stack of dirty-rect pixel diffs.
+ *
+ * Callers capture `before` for the rect they are about to change, apply the
+ * change, then `push` — the `after` pixels are read back here. Pushing drops
+ * the redo stack. `undo`/`redo` return the affected op (or null) so the
+ * caller can keep its document in step. The oldest entries are evicted once either `limit` steps or
+ * HISTORY_MAX_BYTES is exceeded.
+ */
+export default class PaintHistory {
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  private bytes = 0;
+
+  constructor(public limit: number) {}
+
+  get canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Records `op`'s change to `rect` on `ctx`. `cleared` skips reading back
+   * the after-pixels when the rect is known to be fully transparent.
+   */
+  push(
+    ctx: CanvasRenderingContext2D,
+    rect: PixelRect,
+    before: ImageData,
+    op: PaintOp,
+    cleared = false,
+  ) {
+    const after = cleared ? null : ctx.getImageData(rect.x, rect.y, rect.w, rect.h);
+    for (const e of this.redoStack) this.bytes -= entryBytes(e);
+    this.redoStack = [];
+
+    const entry = { ctx, rect, before, after, op };
+    this.undoStack.push(entry);
+    this.bytes += entryBytes(entry);
+    this.trim();
+  }
+
+  undo(): PaintOp | null {
+    const entry = this.undoStack.pop();
+    if (!entry) return null;
+    entry.ctx.putImageData(entry.before, entry.rect.x, entry.rect.y);
+    this.redoStack.push(entry);
+    return entry.op;
+  }
+
+  redo(): PaintOp | null {
+    const entry = this.redoStack.pop();
+    if (!entry) return null;
+    const { ctx, rect, after } = entry;
+    if (after) {
+      ctx.putImageData(after, rect.x, rect.y);
+    } else {
+      // clearRect honours the context transform; putImageData doesn't — match it
+      ctx.save();
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(rect.x, rect.y, rect.w, rect.h);
+      ctx.restore();
+    }
+    this.undoStack.push(entry);
+    return entry.op;
+  }
+
+  /**
+   * Forgets every step recorded on `ctx` — for when that layer is removed or
+   * rewritten wholesale and its diffs no longer apply.
+   */
+  drop(ctx: CanvasRenderingContext2D) {
+    const keep = (e: HistoryEntry) => {
+      if (e.ctx !== ctx) return true;
+      this.bytes -= entryBytes(e);
+      return false;
+    };
+    this.undoStack = this.undoStack.filter(keep);
+    this.redoStack = this.redoStack.filter(keep);
+  }
+
+  clear() {
+    this.undoStack = [];
+    this.redoStack = [];
+    this.bytes = 0;
+  }
+
+  private trim() {
+    while (
+      this.undoStack.length > 1 &&
+      (this.undoStack.length > this.limit || this.bytes > HISTORY_MAX_BYTES)
+    ) {
+      this.bytes -= entryBytes(this.undoStack.shift()!);
+    }
+  }
+}
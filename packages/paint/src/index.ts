@@ -1,4 +1,98 @@
 "use client";
 
 export { default as Paint, PAINT_MOCKDATA } from "./Paint";
-export type { PaintHandle, PaintState, PaintClassNames, PaintProps } from "./Paint";
+export type {
+  PaintHandle,
+  PaintState,
+  PaintClassNames,
+  PaintProps,
+  PaintSaveOptions,
+  PaintExportOptions,
+  PaintImageType,
+  PaintTool,
+} from "./Paint";
+export type {
+  PaintDocument,
+  PaintOp,
+  PaintStroke,
+  PaintFill,
+  PaintGradient,
+  PaintShape,
+  PaintText,
+  PaintSelection,
+  PaintImage,
+  PaintClear,
+  PaintMerge,
+  PaintPoint,
+} from "./paintDocument";
+export { renderPaintDocument } from "./render";
+export type { PaintRenderOptions } from "./render";
+export {
+  PAINT_BRUSHES,
+  createAirbrush,
+  createStampBrush,
+  penPose,
+  registerBrush,
+} from "./brushes";
+export type {
+  Brush,
+  BrushStroke,
+  StampBrushOptions,
+  StampTip,
+} from "./brushes";
+export { DEFAULT_KEYMAP } from "./keymap";
+export type { PaintKeymap, PaintCommand } from "./keymap";
+export { benchmarkStroke } from "./benchmark";
+export type { StrokeBenchmark, StrokeBenchmarkOptions } from "./benchmark";
+export { PAINT_BLEND_MODES } from "./layers";
+export type { PaintLayer, PaintBlendMode } from "./layers";
+export type { PaintShapeKind, PaintShapeStyle } from "./shapes";
+export type { PaintTextOptions, PaintTextAlign } from "./text";
+export { DEFAULT_FILL_OPTIONS } from "./fill";
+export { DEFAULT_GRADIENT_OPTIONS } from "./gradient";
+export type {
+  PaintGradientOptions,
+  PaintGradientKind,
+  PaintGradientStop,
+} from "./gradient";
+export { default as PaintPlayer } from "./PaintPlayer";
+export type { PaintPlayerHandle, PaintPlayerProps } from "./PaintPlayer";
+export { recordTimelapseVideo } from "./recording";
+export type {
+  PaintRecording,
+  PaintRecordingEvent,
+  PaintRecordedOp,
+  TimelapseOptions,
+  TimelapseVideoOptions,
+} from "./recording";
+export {
+  createBroadcastChannelAdapter,
+  createWebSocketAdapter,
+} from "./collab";
+export type {
+  PaintCollabAdapter,
+  PaintCollabMessage,
+  PaintPeer,
+  PaintRemotePeer,
+  PaintOpStamp,
+  PaintStampedOp,
+  WebSocketLike,
+} from "./collab";
+export { DEFAULT_SYMMETRY } from "./symmetry";
+export type {
+  PaintSymmetry,
+  PaintSymmetryMode,
+  PaintSymmetryAxes,
+} from "./symmetry";
+export { DEFAULT_GRID } from "./grid";
+export type { PaintGrid, PaintGridKind, PaintGuide } from "./grid";
+export type {
+  PaintFillOptions,
+  PaintFillMode,
+  PaintFillSample,
+  PaintFillDistance,
+  PaintFillPattern,
+  PaintFillPaint,
+} from "./fill";
+export type { FloatTransform, SelectionRegion } from "./selection";
+export type { PaintBackgroundFit, PaintImageSource } from "./background";
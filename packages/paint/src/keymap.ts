@@ -0,0 +1,98 @@
+import type { PaintTool } from "./Paint";
+
+/**
+ * Something a shortcut does: switch tool, step the size down or up, pick the
+ * nth palette colour (from 1), or save.
+ */
+export type PaintCommand =
+  | `tool:${PaintTool}`
+  | "size-down"
+  | "size-up"
+  | `color:${number}`
+  | "save";
+
+/**
+ * Shortcuts by key, e.g. `"b"`, `"]"` or `"mod+s"`, where `mod` is Ctrl, or
+ * Cmd on a Mac. Modifiers are `mod`, `alt` and `shift`, in any order; keys are
+ * `KeyboardEvent.key` values. Null unbinds a default.
+ */
+export type PaintKeymap = Record<string, PaintCommand | null>;
+
+export const DEFAULT_KEYMAP: PaintKeymap = {
+  b: "tool:brush",
+  e: "tool:eraser",
+  g: "tool:bucket",
+  "shift+g": "tool:gradient",
+  i: "tool:eyedropper",
+  t: "tool:text",
+  m: "tool:select",
+  l: "tool:lasso",
+  u: "tool:rect",
+  "[": "size-down",
+  "]": "size-up",
+  1: "color:1",
+  2: "color:2",
+  3: "color:3",
+  4: "color:4",
+  5: "color:5",
+  6: "color:6",
+  7: "color:7",
+  8: "color:8",
+  9: "color:9",
+  "mod+s": "save",
+};
+
+const MODIFIERS = ["mod", "alt", "shift"];
+
+// "Shift+Mod+S" → "mod+shift+s", so any spelling finds the same binding
+function normalizeCombo(combo: string) {
+  const parts = combo.toLowerCase().split("+");
+  // "+" itself, as in "mod++"
+  const key = parts.pop() || "+";
+  const mods = MODIFIERS.filter((m) => parts.includes(m));
+  return [...mods, key].join("+");
+}
+
+/** The default keymap with `keymap`'s bindings over it, or none at all. */
+export function resolveKeymap(keymap: PaintKeymap | false = {}) {
+  const out = new Map<string, PaintCommand>();
+  if (keymap === false) return out;
+  for (const [combo, command] of Object.entries({
+    ...DEFAULT_KEYMAP,
+    ...keymap,
+  })) {
+    const key = normalizeCombo(combo);
+    if (command) out.set(key, command);
+    else out.delete(key);
+  }
+  return out;
+}
+
+/** The binding a key press matches, spelled as `resolveKeymap` keys them. */
+export function comboFor(ev: KeyboardEvent) {
+  // A shifted symbol ("{", "!") is a key of its own, so Shift only counts
+  // with letters and named keys
+  const shift = ev.shiftKey && (ev.key.length > 1 || /^[a-z]$/i.test(ev.key));
+  const mods = [
+    (ev.ctrlKey || ev.metaKey) && "mod",
+    ev.altKey && "alt",
+    shift && "shift",
+  ].filter(Boolean);
+  return [...mods, ev.key.toLowerCase()].join("+");
+}
+
+/** How a binding reads in a tooltip, e.g. "Ctrl+S" or "Shift+G". */
+export function formatCombo(combo: string, mac = false) {
+  return combo
+    .split("+")
+    .map((part, i, all) =>
+      i < all.length - 1 && part === "mod"
+        ? mac
+          ? "Cmd"
+          : "Ctrl"
+        : part.length === 1
+          ? part.toUpperCase()
+          : part[0].toUpperCase() + part.slice(1),
+    )
+    .join("+");
+}
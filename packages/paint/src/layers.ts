@@ -0,0 +1,92 @@
+import type { Ctx2D } from "./draw";
+
+/**
+ * Layer blend modes — the separable/non-separable blend subset of
+ * `globalCompositeOperation`, which also maps 1:1 onto CSS `mix-blend-mode`
+ * for the live on-screen stack ("source-over" is CSS "normal").
+ */
+export type PaintBlendMode =
+  | "source-over"
+  | "multiply"
+  | "screen"
+  | "overlay"
+  | "darken"
+  | "lighten"
+  | "color-dodge"
+  | "color-burn"
+  | "hard-light"
+  | "soft-light"
+  | "difference"
+  | "exclusion"
+  | "hue"
+  | "saturation"
+  | "color"
+  | "luminosity";
+
+export const PAINT_BLEND_MODES: PaintBlendMode[] = [
+  "source-over",
+  "multiply",
+  "screen",
+  "overlay",
+  "darken",
+  "lighten",
+  "color-dodge",
+  "color-burn",
+  "hard-light",
+  "soft-light",
+  "difference",
+  "exclusion",
+  "hue",
+  "saturation",
+  "color",
+  "luminosity",
+];
+
+/** One entry in the layer stack. Arrays of layers are ordered bottom → top. */
+export type PaintLayer = {
+  id: string;
+  name: string;
+  visible: boolean;
+  /** 0–1 */
+  opacity: number;
+  blendMode: PaintBlendMode;
+};
+
+export const cssBlendMode = (mode: PaintBlendMode) =>
+  mode === "source-over" ? "normal" : mode;
+
+export function createLayer(id: string, name: string): PaintLayer {
+  return { id, name, visible: true, opacity: 1, blendMode: "source-over" };
+}
+
+/**
+ * Draws `source` onto `target` with a layer's opacity and blend mode,
+ * ignoring `target`'s current transform. Used both to flatten the stack and
+ * to merge one layer into another.
+ */
+export function compositeLayer(
+  target: Ctx2D,
+  source: CanvasImageSource,
+  opacity: number,
+  blendMode: PaintBlendMode,
+) {
+  target.save();
+  target.setTransform(1, 0, 0, 1, 0, 0);
+  target.globalAlpha = opacity;
+  target.globalCompositeOperation = blendMode;
+  target.drawImage(source, 0, 0);
+  target.restore();
+}
+
+/** Composites the visible `layers` bottom → top onto `target`. */
+export function flattenLayers(
+  target: Ctx2D,
+  layers: PaintLayer[],
+  canvasFor: (id: string) => CanvasImageSource | undefined,
+) {
+  for (const layer of layers) {
+    const canvas = canvasFor(layer.id);
+    if (!layer.visible || !canvas) continue;
+    compositeLayer(target, canvas, layer.opacity, layer.blendMode);
+  }
+}
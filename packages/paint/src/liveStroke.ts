@@ -0,0 +1,79 @@
+import { strokePad, type Brush, type BrushStroke } from "./brushes";
+import type { Ctx2D } from "./draw";
+import { rectFromPoints } from "./history";
+import type { PaintPoint } from "./paintDocument";
+
+/**
+ * Draws a stroke in progress onto `ctx`, a canvas of its own (the preview
+ * layer). Brushes with `drawSince` only add what each frame's new points
+ * bring; predicted points are drawn past the end and taken back on the next
+ * frame by restoring the few pixels under them. Other brushes, or any brush
+ * with `incremental` off, redraw the whole stroke every frame.
+ */
+export function createStrokePreview(
+  ctx: Ctx2D,
+  brush: Brush,
+  { incremental = true }: { incremental?: boolean } = {},
+) {
+  // Points whose marks are on the canvas already
+  let drawn = 0;
+  // Pixels under the last frame's predicted points
+  let under: { image: ImageData; x: number; y: number } | null = null;
+
+  const clear = () => {
+    ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height);
+    drawn = 0;
+    under = null;
+  };
+
+  const paint = (draw: () => void) => {
+    ctx.save();
+    draw();
+    ctx.restore();
+  };
+
+  return {
+    /** Brings the canvas up to date with `stroke`, plus `predicted` points. */
+    frame(stroke: BrushStroke, predicted: PaintPoint[] = []) {
+      const points = predicted.length
+        ? [...stroke.points, ...predicted]
+        : stroke.points;
+      if (!incremental || !brush.drawSince) {
+        clear();
+        paint(() => brush.draw(ctx, { ...stroke, points }));
+        return;
+      }
+      const drawSince = brush.drawSince.bind(brush);
+      if (under) ctx.putImageData(under.image, under.x, under.y);
+      under = null;
+      paint(() => drawSince(ctx, stroke, drawn));
+      drawn = stroke.points.length;
+      if (!predicted.length) return;
+
+      // From the last settled piece, which the predictions carry on from
+      const reach = points.slice(Math.max(0, drawn - 2));
+      const rect = rectFromPoints(
+        reach,
+        strokePad(brush, reach, stroke.width),
+        ctx.canvas.width,
+        ctx.canvas.height,
+        ctx.getTransform().a,
+      );
+      if (!rect) return;
+      under = {
+        image: ctx.getImageData(rect.x, rect.y, rect.w, rect.h),
+        x: rect.x,
+        y: rect.y,
+      };
+      paint(() => drawSince(ctx, { ...stroke, points }, drawn));
+    },
+    /** Redraws `stroke` whole, as it will be committed and replayed. */
+    finish(stroke: BrushStroke) {
+      clear();
+      paint(() => brush.draw(ctx, stroke));
+    },
+    clear,
+  };
+}
+
+export type StrokePreview = ReturnType<typeof createStrokePreview>;
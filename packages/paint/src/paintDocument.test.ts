@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import {
+  PAINT_DOCUMENT_VERSION,
+  parseDocument,
+  type PaintDocument,
+  type PaintOp,
+} from "./paintDocument";
+
+const stroke: PaintOp = {
+  type: "stroke",
+  layer: "layer-1",
+  tool: "brush",
+  color: "#000",
+  width: 5,
+  variable: false,
+  points: [
+    { x: 1, y: 2, w: 5 },
+    { x: 3, y: 4, w: 5 },
+  ],
+};
+
+const document = (ops: unknown[]) => ({
+  version: PAINT_DOCUMENT_VERSION,
+  width: 100,
+  height: 100,
+  layers: [
+    {
+      id: "layer-1",
+      name: "Layer 1",
+      visible: true,
+      opacity: 1,
+      blendMode: "source-over",
+    },
+  ],
+  ops,
+});
+
+describe("parseDocument", () => {
+  it("reads a document or its JSON", () => {
+    const doc = document([stroke, { type: "clear", layer: "layer-1" }]);
+    expect(parseDocument(doc as PaintDocument)).toEqual(doc);
+    expect(parseDocument(JSON.stringify(doc))).toEqual(doc);
+  });
+
+  it("rejects what isn't a paint document", () => {
+    expect(() => parseDocument("{}")).toThrow(/`ops`/);
+    expect(() => parseDocument("not json")).toThrow();
+    const { layers: _, ...noLayers } = document([]);
+    expect(() => parseDocument(noLayers as PaintDocument)).toThrow(/`layers`/);
+  });
+
+  it("rejects documents from a newer version", () => {
+    const doc = { ...document([]), version: PAINT_DOCUMENT_VERSION + 1 };
+    expect(() => parseDocument(doc as PaintDocument)).toThrow(/version/);
+  });
+
+  it.each([
+    ["an unknown type", { type: "smudge", layer: "layer-1" }, /op 1.*type/],
+    ["no layer", { type: "clear" }, /op 1 has no `layer`/],
+    [
+      "a missing field",
+      { type: "fill", layer: "layer-1", x: 1, y: 1, color: "#000" },
+      /op 1 \(fill\).*`tolerance`/,
+    ],
+    [
+      "a stroke without points",
+      { ...stroke, points: undefined },
+      /op 1 \(stroke\).*`points`/,
+    ],
+    [
+      "a malformed point",
+      { ...stroke, points: [{ x: 1, y: "2", w: 5 }] },
+      /op 1 \(stroke\).*point/,
+    ],
+    ["a non-object op", null, /op 1 isn't an object/],
+  ])("rejects an op with %s", (_, op, message) => {
+    const doc = document([stroke, op]);
+    expect(() => parseDocument(doc as PaintDocument)).toThrow(message);
+  });
+});
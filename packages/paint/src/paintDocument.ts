@@ -0,0 +1,588 @@
+import {
+  createCanvas,
+  drawBezierPath,
+  composeOver,
+  get2d,
+  type Ctx2D,
+} from "./draw";
+import {
+  composeMerged,
+  floodFill,
+  renderFillPaint,
+  type PaintFillOptions,
+} from "./fill";
+import type { PaintBackgroundFit } from "./background";
+import {
+  drawGradient,
+  type GradientClip,
+  type PaintGradientKind,
+  type PaintGradientStop,
+} from "./gradient";
+import { getBrush, strokePad, type Brush } from "./brushes";
+import {
+  symmetricBrush,
+  symmetricPoints,
+  symmetricStrokes,
+  type PaintSymmetryAxes,
+} from "./symmetry";
+import { rectFromPoints } from "./history";
+import {
+  drawShape,
+  type PaintShapeKind,
+  type PaintShapeStyle,
+} from "./shapes";
+import {
+  drawFloating,
+  liftRegion,
+  type FloatTransform,
+  type SelectionRegion,
+} from "./selection";
+import { drawTextBlock, type PaintTextOptions } from "./text";
+import {
+  compositeLayer,
+  type PaintBlendMode,
+  type PaintLayer,
+} from "./layers";
+
+// ─── Document model ──────────────────────────────────────────────────────────
+
+/**
+ * Bumped whenever the serialised shape changes, with a migration from the
+ * version before in `parseDocument`.
+ */
+export const PAINT_DOCUMENT_VERSION = 1;
+
+/** A recorded pointer sample. `w` is the stroke width at that point (pressure-mapped for pens). */
+export type PaintPoint = {
+  x: number;
+  y: number;
+  w: number;
+  /** Pen tilt in degrees (`PointerEvent.tiltX` / `tiltY`), when non-zero. */
+  tiltX?: number;
+  tiltY?: number;
+  /** Pen barrel rotation in degrees (`PointerEvent.twist`), when reported. */
+  twist?: number;
+};
+
+/** A brush or eraser stroke, exactly as it was drawn. */
+export type PaintStroke = {
+  type: "stroke";
+  /** Id of the layer the op applies to. */
+  layer: string;
+  tool: "brush" | "eraser";
+  color: string;
+  /** `markerWidth` at the time of the stroke. */
+  width: number;
+  /** Whether per-point `w` drives the width (pen + `pressure`). */
+  variable: boolean;
+  points: PaintPoint[];
+  /** Id of the `Brush` that drew it (brush strokes). Defaults to "round". */
+  brush?: string;
+  /** Drawn mirrored: `points` are the original, the copies are derived. */
+  symmetry?: PaintSymmetryAxes;
+};
+
+/**
+ * A bucket fill seeded at `x`/`y`. The options are absent from fills made
+ * before they existed, which replay as contiguous, layer-only, channel
+ * distance, solid fills without anti-aliasing.
+ */
+export type PaintFill = {
+  type: "fill";
+  layer: string;
+  x: number;
+  y: number;
+  color: string;
+  tolerance: number;
+} & Partial<PaintFillOptions>;
+
+/**
+ * A gradient dragged from (`x0`, `y0`) to (`x1`, `y1`), covering the layer,
+ * or with `clip` only the region a bucket fill at (`x0`, `y0`) would take.
+ */
+export type PaintGradient = {
+  type: "gradient";
+  layer: string;
+  kind: PaintGradientKind;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  stops: PaintGradientStop[];
+  clip?: GradientClip;
+};
+
+/** A line / rectangle / ellipse / polygon / arrow, with modifiers already applied. */
+export type PaintShape = {
+  type: "shape";
+  layer: string;
+  shape: PaintShapeKind;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  style: PaintShapeStyle;
+  color: string;
+  width: number;
+  /** Polygon only. */
+  sides?: number;
+};
+
+/** A committed text box. `x`/`y` anchor the first line (see `align`). */
+export type PaintText = {
+  type: "text";
+  layer: string;
+  x: number;
+  y: number;
+  text: string;
+  color: string;
+} & PaintTextOptions;
+
+/**
+ * A committed selection: `region` is lifted off the layer and redrawn at
+ * `to` (moved / scaled / rotated), or just removed when `to` is null.
+ */
+export type PaintSelection = {
+  type: "selection";
+  layer: string;
+  region: SelectionRegion;
+  to: FloatTransform | null;
+};
+
+/** A placed image (e.g. pasted from the clipboard). `src` is a data URL. */
+export type PaintImage = {
+  type: "image";
+  layer: string;
+  src: string;
+  to: FloatTransform;
+};
+
+/** `clearCanvas()` on one layer. */
+export type PaintClear = { type: "clear"; layer: string };
+
+/**
+ * Layer `source` composited down into `layer`. The source layer is removed
+ * from the stack at that point, but its ops stay in the document so it can be
+ * rebuilt on replay.
+ */
+export type PaintMerge = {
+  type: "merge";
+  layer: string;
+  source: string;
+  opacity: number;
+  blendMode: PaintBlendMode;
+};
+
+export type PaintOp =
+  | PaintStroke
+  | PaintFill
+  | PaintGradient
+  | PaintShape
+  | PaintText
+  | PaintSelection
+  | PaintImage
+  | PaintClear
+  | PaintMerge;
+
+/**
+ * Serialisable drawing: the layer stack (bottom → top) and the ordered
+ * operations that produced it. Coordinates are in CSS pixels of a
+ * `width` × `height` canvas.
+ */
+export type PaintDocument = {
+  version: number;
+  width: number;
+  height: number;
+  layers: PaintLayer[];
+  ops: PaintOp[];
+  /**
+   * Image under the layers (a URL or data URL). Fills were bounded by it, so
+   * it's needed to replay them faithfully.
+   */
+  background?: { src: string; fit: PaintBackgroundFit };
+};
+
+// The fields each op needs to replay, by type. Optional ones are left to
+// their defaults.
+type FieldKind = "number" | "string" | "object" | "array";
+const OP_FIELDS: Record<PaintOp["type"], Record<string, FieldKind>> = {
+  stroke: { color: "string", width: "number", points: "array" },
+  fill: { x: "number", y: "number", color: "string", tolerance: "number" },
+  gradient: {
+    kind: "string",
+    x0: "number",
+    y0: "number",
+    x1: "number",
+    y1: "number",
+    stops: "array",
+  },
+  shape: {
+    shape: "string",
+    x0: "number",
+    y0: "number",
+    x1: "number",
+    y1: "number",
+    style: "string",
+    color: "string",
+    width: "number",
+  },
+  text: { x: "number", y: "number", text: "string", color: "string" },
+  selection: { region: "object" },
+  image: { src: "string", to: "object" },
+  clear: {},
+  merge: { source: "string", opacity: "number", blendMode: "string" },
+};
+
+const isKind = (value: unknown, kind: FieldKind) =>
+  kind === "array"
+    ? Array.isArray(value)
+    : kind === "object"
+      ? !!value && typeof value === "object"
+      : typeof value === kind;
+
+const isPoint = (p: unknown) =>
+  isKind(p, "object") &&
+  ["x", "y", "w"].every((k) => isKind((p as PaintPoint)[k as "x"], "number"));
+
+// Throws unless `op` is an op this version can replay
+function checkOp(op: unknown, index: number) {
+  const fail = (problem: string): never => {
+    throw new Error(`Invalid paint document: op ${index} ${problem}`);
+  };
+  if (!isKind(op, "object")) fail("isn't an object");
+  const { type, layer } = op as PaintOp;
+  if (typeof type !== "string" || !Object.hasOwn(OP_FIELDS, type)) {
+    fail(`has unknown type ${JSON.stringify(type)}`);
+  }
+  if (typeof layer !== "string") fail("has no `layer`");
+  for (const [field, kind] of Object.entries(OP_FIELDS[type])) {
+    const value = (op as Record<string, unknown>)[field];
+    if (!isKind(value, kind)) fail(`(${type}) has no valid \`${field}\``);
+  }
+  if (type === "stroke") {
+    const { tool, points } = op as PaintStroke;
+    if (tool !== "brush" && tool !== "eraser") fail("(stroke) has no `tool`");
+    if (!points.every(isPoint)) fail("(stroke) has an invalid point");
+  }
+  if (type === "selection") {
+    const { to } = op as PaintSelection;
+    if (to !== null && !isKind(to, "object")) fail("(selection) has no `to`");
+  }
+}
+
+/**
+ * Validates a document (or its JSON) and returns it in the current version's
+ * shape. Throws on anything that isn't a paint document this version can
+ * read, including ops of unknown types or missing fields.
+ */
+export function parseDocument(input: PaintDocument | string): PaintDocument {
+  const doc: unknown = typeof input === "string" ? JSON.parse(input) : input;
+  if (
+    !doc ||
+    typeof doc !== "object" ||
+    !Array.isArray((doc as PaintDocument).ops)
+  ) {
+    throw new Error("Invalid paint document: missing `ops` array");
+  }
+  const { version } = doc as PaintDocument;
+  if (typeof version !== "number" || version > PAINT_DOCUMENT_VERSION) {
+    throw new Error(`Unsupported paint document version: ${version}`);
+  }
+  if (!Array.isArray((doc as PaintDocument).layers)) {
+    throw new Error("Invalid paint document: missing `layers` array");
+  }
+  (doc as PaintDocument).ops.forEach(checkOp);
+  return doc as PaintDocument;
+}
+
+// ─── Images ──────────────────────────────────────────────────────────────────
+
+// Decoded images for `image` ops, keyed by `src`. Rendering is synchronous, so
+// images must be decoded (loadImages) or registered (cacheImage) beforehand.
+const imageCache = new Map<string, CanvasImageSource>();
+
+/** Registers a decoded image for `src` so ops using it render synchronously. */
+export function cacheImage(src: string, image: CanvasImageSource) {
+  imageCache.set(src, image);
+}
+
+/** Decodes every image referenced by `ops` that isn't cached yet. */
+export async function loadImages(ops: PaintOp[]) {
+  const pending = new Set<string>();
+  for (const op of ops) {
+    const src =
+      op.type === "image"
+        ? op.src
+        : op.type === "fill" && op.paint?.type === "image"
+          ? op.paint.src
+          : null;
+    if (src !== null && !imageCache.has(src)) pending.add(src);
+  }
+  await Promise.all(
+    [...pending].map(async (src) => {
+      const blob = await (await fetch(src)).blob();
+      imageCache.set(src, await createImageBitmap(blob));
+    }),
+  );
+}
+
+/** The decoded image for `src`, if it's been loaded or cached. */
+export const cachedImage = (src: string) => imageCache.get(src);
+
+// ─── Rendering ───────────────────────────────────────────────────────────────
+
+// Brush strokes are drawn on a scratch canvas first and composited in one
+// drawImage, exactly like the live tmp_canvas → canvas commit, so
+// semi-transparent colours replay identically. Reused across ops.
+let scratch: HTMLCanvasElement | OffscreenCanvas | null = null;
+
+function getScratch(width: number, height: number) {
+  if (!scratch || scratch.width !== width || scratch.height !== height) {
+    scratch = createCanvas(width, height);
+  }
+  return get2d(scratch);
+}
+
+/**
+ * Applies one operation to `ctx`. `scale` maps document units to canvas
+ * pixels; the context's existing transform is ignored. `backdrop` is the
+ * background image canvas, if any, which bounds fills. `merged` supplies
+ * what fills that sample all layers see. `brushFor` finds a stroke's brush
+ * by id.
+ */
+export function renderOp(
+  ctx: Ctx2D,
+  op: PaintOp,
+  scale = 1,
+  backdrop?: CanvasImageSource,
+  merged?: () => ImageData,
+  brushFor: (id?: string) => Brush = getBrush,
+) {
+  const { width, height } = ctx.canvas;
+
+  if (op.type === "clear") {
+    ctx.save();
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    ctx.restore();
+    return;
+  }
+
+  // Merges need two layers' contexts — see renderOps
+  if (op.type === "merge") return;
+
+  if (op.type === "fill") {
+    fillOp(ctx, op, scale, backdrop, merged);
+    return;
+  }
+
+  if (op.type === "gradient") {
+    gradientOp(ctx, op, scale, backdrop, merged);
+    return;
+  }
+
+  if (op.type === "shape") {
+    ctx.save();
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.globalCompositeOperation = "source-over";
+    ctx.lineWidth = op.width;
+    ctx.strokeStyle = op.color;
+    ctx.fillStyle = op.color;
+    ctx.lineJoin = "round";
+    ctx.lineCap = "round";
+    drawShape(ctx, op.shape, op, op.style, op.sides);
+    ctx.restore();
+    return;
+  }
+
+  if (op.type === "selection") {
+    const lifted = liftRegion(ctx, op.region, scale);
+    if (op.to) drawFloating(ctx, lifted, op.to, scale);
+    return;
+  }
+
+  if (op.type === "image") {
+    const image = imageCache.get(op.src);
+    if (image) drawFloating(ctx, image, op.to, scale);
+    return;
+  }
+
+  if (op.type === "text") {
+    ctx.save();
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.globalCompositeOperation = "source-over";
+    ctx.fillStyle = op.color;
+    drawTextBlock(ctx, op.text, op.x, op.y, op);
+    ctx.restore();
+    return;
+  }
+
+  if (op.points.length === 0) return;
+
+  if (op.tool === "eraser") {
+    ctx.save();
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.globalCompositeOperation = "destination-out";
+    ctx.lineWidth = op.width;
+    ctx.strokeStyle = "rgba(0,0,0,1)";
+    ctx.fillStyle = "rgba(0,0,0,1)";
+    ctx.lineJoin = "round";
+    ctx.lineCap = "round";
+    const copies = op.symmetry ? symmetricStrokes(op, op.symmetry) : [op];
+    for (const copy of copies) drawBezierPath(ctx, copy.points);
+    ctx.restore();
+    return;
+  }
+
+  // Only the stroke's bounding box is cleared and composited
+  const brush = op.symmetry
+    ? symmetricBrush(brushFor(op.brush), op.symmetry)
+    : brushFor(op.brush);
+  const rect = rectFromPoints(
+    symmetricPoints(op.points, op.symmetry),
+    strokePad(brush, op.points, op.width),
+    width,
+    height,
+    scale,
+  );
+  if (!rect) return;
+
+  const sctx = getScratch(width, height);
+  sctx.save();
+  sctx.setTransform(1, 0, 0, 1, 0, 0);
+  sctx.clearRect(rect.x, rect.y, rect.w, rect.h);
+  sctx.setTransform(scale, 0, 0, scale, 0, 0);
+  brush.draw(sctx, op);
+  sctx.restore();
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.globalCompositeOperation = "source-over";
+  ctx.drawImage(
+    sctx.canvas,
+    rect.x,
+    rect.y,
+    rect.w,
+    rect.h,
+    rect.x,
+    rect.y,
+    rect.w,
+    rect.h,
+  );
+  ctx.restore();
+}
+
+/**
+ * Applies a fill op, live or replayed, and returns its dirty rect. `merged`
+ * is only called for fills that sample all layers.
+ */
+export function fillOp(
+  ctx: Ctx2D,
+  op: PaintFill,
+  scale = 1,
+  backdrop?: CanvasImageSource,
+  merged?: () => ImageData,
+) {
+  const { width, height } = ctx.canvas;
+  return floodFill(ctx, op.x * scale, op.y * scale, op.color, op.tolerance, {
+    boundary: fillBoundary(ctx, op.sample, backdrop, merged),
+    mode: op.mode,
+    gap: (op.gap ?? 0) * scale,
+    distance: op.distance,
+    antialias: op.antialias,
+    paint: op.paint
+      ? renderFillPaint(op.paint, op.color, width, height, scale, cachedImage)
+      : undefined,
+  });
+}
+
+/**
+ * What a fill's region is found in, when it isn't just the layer itself: all
+ * visible layers (`merged`), or the layer over the background image.
+ */
+export function fillBoundary(
+  ctx: Ctx2D,
+  sample: PaintFill["sample"],
+  backdrop?: CanvasImageSource,
+  merged?: () => ImageData,
+) {
+  return sample === "merged" && merged
+    ? merged()
+    : backdrop && composeOver(ctx, backdrop);
+}
+
+/**
+ * Applies a gradient op, live or replayed, and returns its dirty rect. A
+ * clipped gradient paints its region the way a bucket fill does, replacing
+ * the pixels there; otherwise it's drawn over the whole layer.
+ */
+export function gradientOp(
+  ctx: Ctx2D,
+  op: PaintGradient,
+  scale = 1,
+  backdrop?: CanvasImageSource,
+  merged?: () => ImageData,
+) {
+  const { width, height } = ctx.canvas;
+  if (!op.clip) {
+    ctx.save();
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.globalCompositeOperation = "source-over";
+    drawGradient(ctx, op, width / scale, height / scale);
+    ctx.restore();
+    return { x: 0, y: 0, w: width, h: height };
+  }
+  const { tolerance, sample, gap = 0, ...options } = op.clip;
+  return floodFill(
+    ctx,
+    op.x0 * scale,
+    op.y0 * scale,
+    op.stops[0]?.color ?? "transparent",
+    tolerance,
+    {
+      ...options,
+      boundary: fillBoundary(ctx, sample, backdrop, merged),
+      gap: gap * scale,
+      paint: () => {
+        const t = get2d(createCanvas(width, height));
+        t.setTransform(scale, 0, 0, scale, 0, 0);
+        drawGradient(t, op, width / scale, height / scale);
+        return t.getImageData(0, 0, width, height);
+      },
+    },
+  );
+}
+
+/**
+ * Replays `ops` in order onto the per-layer contexts from `ctxFor` (which are
+ * not cleared first). `ctxFor` must also return a context for layers that only
+ * survive as merge sources (e.g. a scratch canvas). `layers` is the stack
+ * fills that sample all layers see — as it is now, since the stack's history
+ * isn't recorded. `brushFor` finds strokes' brushes by id.
+ */
+export function renderOps(
+  ctxFor: (layer: string) => Ctx2D,
+  ops: PaintOp[],
+  scale = 1,
+  backdrop?: CanvasImageSource,
+  layers: PaintLayer[] = [],
+  brushFor: (id?: string) => Brush = getBrush,
+) {
+  for (const op of ops) {
+    if (op.type === "merge") {
+      const source = ctxFor(op.source);
+      compositeLayer(ctxFor(op.layer), source.canvas, op.opacity, op.blendMode);
+    } else {
+      const ctx = ctxFor(op.layer);
+      const merged = () =>
+        composeMerged(
+          ctx.canvas.width,
+          ctx.canvas.height,
+          layers,
+          (id) => ctxFor(id).canvas,
+          backdrop,
+        );
+      renderOp(ctx, op, scale, backdrop, merged, brushFor);
+    }
+  }
+}
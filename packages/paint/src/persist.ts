@@ -0,0 +1,55 @@
+import type { PaintDocument } from "./paintDocument";
+
+// One database for every Paint on the origin, one record per `persistKey`
+const DB_NAME = "mdcrty-paint";
+const STORE = "documents";
+
+let database: Promise<IDBDatabase> | null = null;
+
+function openDatabase() {
+  database ??= new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      throw new Error("IndexedDB is unavailable");
+    }
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE);
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).catch((error) => {
+    // Blocked now needn't mean blocked for good
+    database = null;
+    throw error;
+  });
+  return database;
+}
+
+// Runs `fn` in a transaction on the store, resolving once it's committed.
+// Quota errors surface here, when the write is aborted.
+async function transact<T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+) {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    const req = fn(tx.objectStore(STORE));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onabort = tx.onerror = () =>
+      reject(tx.error ?? req.error ?? new Error("Transaction aborted"));
+  });
+}
+
+/** The document stored under `key`, or null when there's none. */
+export async function readPersisted(key: string) {
+  const doc = await transact("readonly", (store) => store.get(key));
+  return (doc as PaintDocument | undefined) ?? null;
+}
+
+/** Stores `doc` under `key`, replacing what was there. */
+export async function writePersisted(key: string, doc: PaintDocument) {
+  await transact("readwrite", (store) => store.put(doc, key));
+}
+
+export async function deletePersisted(key: string) {
+  await transact("readwrite", (store) => store.delete(key));
+}
@@ -0,0 +1,154 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createLayer } from "./layers";
+import type { PaintDocument, PaintOp } from "./paintDocument";
+import {
+  createRecorder,
+  timelapseSchedule,
+  type PaintRecordingEvent,
+} from "./recording";
+
+const clear = (layer = "layer-1"): PaintOp => ({ type: "clear", layer });
+
+const stroke = (count: number): PaintOp => ({
+  type: "stroke",
+  layer: "layer-1",
+  tool: "brush",
+  color: "#000",
+  width: 5,
+  variable: false,
+  points: Array.from({ length: count }, (_, i) => ({ x: i, y: i, w: 5 })),
+});
+
+const document = (ops: PaintOp[] = []): PaintDocument => ({
+  version: 1,
+  width: 100,
+  height: 100,
+  layers: [createLayer("layer-1", "Layer 1")],
+  ops,
+});
+
+// A clock the recorder reads, moved on by hand
+function fakeClock() {
+  let now = 0;
+  vi.spyOn(performance, "now").mockImplementation(() => now);
+  return (ms: number) => {
+    now += ms;
+  };
+}
+
+const noTimes = () => undefined;
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("createRecorder", () => {
+  it("records what each change keeps and adds", () => {
+    const wait = fakeClock();
+    const doc = document([clear()]);
+    const recorder = createRecorder(doc, doc.ops);
+    const [first, second] = [stroke(2), clear()];
+
+    wait(100);
+    recorder.capture([...doc.ops, first], doc.layers, (op) =>
+      op === first ? [0, 16] : undefined,
+    );
+    wait(100);
+    recorder.capture([...doc.ops, first, second], doc.layers, noTimes);
+    // Undo drops the last op and adds nothing
+    wait(100);
+    recorder.capture([...doc.ops, first], doc.layers, noTimes);
+    wait(100);
+
+    const recording = recorder.stop();
+    expect(recording.duration).toBe(400);
+    expect(recording.document).toEqual(doc);
+    expect(recording.events).toEqual([
+      { t: 100, keep: 1, add: [{ op: first, times: [0, 16] }] },
+      { t: 200, keep: 2, add: [{ op: second }] },
+      { t: 300, keep: 2, add: [] },
+    ]);
+  });
+
+  it("re-adds what follows an op that arrived out of order", () => {
+    fakeClock();
+    const [a, b, late] = [clear("a"), clear("b"), clear("late")];
+    const doc = document();
+    const recorder = createRecorder(doc, [a, b]);
+    recorder.capture([a, late, b], doc.layers, noTimes);
+    expect(recorder.stop().events).toMatchObject([
+      { keep: 1, add: [{ op: late }, { op: b }] },
+    ]);
+  });
+
+  it("records layer changes, and skips captures that change nothing", () => {
+    fakeClock();
+    const doc = document();
+    const recorder = createRecorder(doc, doc.ops);
+    recorder.capture(doc.ops, doc.layers, noTimes);
+    const layers = [...doc.layers, createLayer("layer-2", "Layer 2")];
+    recorder.capture(doc.ops, layers, noTimes);
+    recorder.capture(doc.ops, layers, noTimes);
+    expect(recorder.stop().events).toEqual([
+      { t: 0, keep: 0, add: [], layers },
+    ]);
+  });
+
+  it("copies ops so later changes don't reach the recording", () => {
+    fakeClock();
+    const doc = document();
+    const recorder = createRecorder(doc, doc.ops);
+    const op = clear();
+    recorder.capture([op], doc.layers, noTimes);
+    op.layer = "changed";
+    doc.width = 1;
+    const recording = recorder.stop();
+    expect(recording.events[0].add[0].op).toEqual(clear());
+    expect(recording.document.width).toBe(1);
+  });
+});
+
+describe("timelapseSchedule", () => {
+  // An event at `t` whose strokes took `times` to draw
+  const event = (t: number, ...times: number[][]): PaintRecordingEvent => ({
+    t,
+    keep: 0,
+    add: times.length
+      ? times.map((times) => ({ op: stroke(times.length), times }))
+      : [{ op: clear() }],
+  });
+
+  it("plays strokes at the speed they were drawn", () => {
+    expect(
+      timelapseSchedule([event(500, [0, 100, 200]), event(600)], 1000),
+    ).toEqual([
+      { start: 300, end: 500 },
+      { start: 600, end: 600 },
+    ]);
+  });
+
+  it("cuts long pauses to maxGap", () => {
+    expect(
+      timelapseSchedule([event(5000), event(20000, [0, 50])], 1000),
+    ).toEqual([
+      { start: 1000, end: 1000 },
+      { start: 2000, end: 2050 },
+    ]);
+  });
+
+  it("takes an event's longest stroke as its span", () => {
+    expect(timelapseSchedule([event(400, [0, 100], [0, 300])], 1000)).toEqual(
+      [{ start: 100, end: 400 }],
+    );
+  });
+
+  it("starts strokes that overlapped the last event straight after it", () => {
+    // A remote stroke begun before the local one before it finished
+    expect(
+      timelapseSchedule([event(1000, [0, 500]), event(1200, [0, 600])], 1000),
+    ).toEqual([
+      { start: 500, end: 1000 },
+      { start: 1000, end: 1600 },
+    ]);
+  });
+});
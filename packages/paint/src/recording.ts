@@ -0,0 +1,351 @@
+import {
+  backgroundPlacement,
+  decodeImage,
+  drawBackground,
+} from "./background";
+import { brushLookup, type Brush } from "./brushes";
+import { createCanvas, get2d, type Ctx2D } from "./draw";
+import { compositeLayer, flattenLayers, type PaintLayer } from "./layers";
+import {
+  loadImages,
+  renderOp,
+  renderOps,
+  type PaintDocument,
+  type PaintOp,
+} from "./paintDocument";
+
+/** An op added during a recording, with its points' timing if it's a stroke. */
+export type PaintRecordedOp = {
+  op: PaintOp;
+  /** Ms from the stroke's first point to each of its points. */
+  times?: number[];
+};
+
+/**
+ * A change to the drawing: the first `keep` ops stay and `add` follow them.
+ * Most changes only add; undo drops the last op, and anything else that
+ * reorders the document (a remote op arriving late) re-adds what follows it.
+ */
+export type PaintRecordingEvent = {
+  /** Ms after the recording started. */
+  t: number;
+  keep: number;
+  add: PaintRecordedOp[];
+  /** The layer stack, when it changed. */
+  layers?: PaintLayer[];
+};
+
+/** A drawing session as `stopRecording()` returns it. Plain JSON. */
+export type PaintRecording = {
+  version: 1;
+  /** The drawing when recording started. */
+  document: PaintDocument;
+  events: PaintRecordingEvent[];
+  /** Ms from start to stop. */
+  duration: number;
+};
+
+/**
+ * Records changes to a drawing, starting from `document`. `capture` is
+ * called with the ops and layers after each change, plus the timing of any
+ * new strokes.
+ */
+export function createRecorder(document: PaintDocument, ops: PaintOp[]) {
+  const start = performance.now();
+  const events: PaintRecordingEvent[] = [];
+  // Compared by identity: ops are never changed once committed
+  let last = [...ops];
+  let lastLayers = document.layers;
+
+  return {
+    capture(
+      ops: PaintOp[],
+      layers: PaintLayer[],
+      timesFor: (op: PaintOp) => number[] | undefined,
+    ) {
+      let keep = 0;
+      while (keep < last.length && last[keep] === ops[keep]) keep++;
+      const add = ops.slice(keep);
+      const layersChanged = layers !== lastLayers;
+      if (keep === last.length && !add.length && !layersChanged) return;
+      events.push({
+        t: Math.round(performance.now() - start),
+        keep,
+        add: add.map((op) => {
+          const times = timesFor(op);
+          return { op: structuredClone(op), ...(times && { times }) };
+        }),
+        ...(layersChanged && { layers: structuredClone(layers) }),
+      });
+      last = [...ops];
+      lastLayers = layers;
+    },
+    stop(): PaintRecording {
+      return {
+        version: 1,
+        document: structuredClone(document),
+        events,
+        duration: Math.round(performance.now() - start),
+      };
+    },
+  };
+}
+
+export type Recorder = ReturnType<typeof createRecorder>;
+
+// How long an event's strokes took to draw
+const span = (event: PaintRecordingEvent) =>
+  Math.max(0, ...event.add.map(({ times }) => times?.at(-1) ?? 0));
+
+/**
+ * When each event starts and ends in a timelapse, in ms: its strokes take as
+ * long as they took to draw, and idle stretches before it are cut to
+ * `maxGap`.
+ */
+export function timelapseSchedule(
+  events: PaintRecordingEvent[],
+  maxGap: number,
+) {
+  const schedule: Array<{ start: number; end: number }> = [];
+  let clock = 0;
+  let recorded = 0;
+  for (const event of events) {
+    const from = event.t - span(event);
+    const start = clock + Math.min(Math.max(0, from - recorded), maxGap);
+    clock = start + span(event);
+    recorded = Math.max(recorded, event.t);
+    schedule.push({ start, end: clock });
+  }
+  return schedule;
+}
+
+/** Timelapse settings. */
+export type TimelapseOptions = {
+  /**
+   * Longest pause kept between changes, in ms; longer ones are cut to this.
+   * @default 1000
+   */
+  maxGap?: number;
+  /**
+   * Canvas pixels per document unit.
+   * @default 1
+   */
+  scale?: number;
+  /** Brushes the strokes may use besides the built-in and registered ones. */
+  brushes?: Brush[];
+};
+
+/**
+ * Plays `recording` back onto canvases of its own: `draw(target, time)`
+ * shows the drawing as it was `time` ms into the timelapse, with strokes
+ * growing point by point. Seeking forwards only draws what's new; seeking
+ * back redraws from the start. Embedded images are decoded first.
+ */
+export async function createTimelapse(
+  recording: PaintRecording,
+  { maxGap = 1000, scale = 1, brushes }: TimelapseOptions = {},
+) {
+  const brushFor = brushLookup(brushes);
+  const { document: doc, events } = recording;
+  const width = Math.max(1, Math.round(doc.width * scale));
+  const height = Math.max(1, Math.round(doc.height * scale));
+  await loadImages([
+    ...doc.ops,
+    ...events.flatMap((e) => e.add.map(({ op }) => op)),
+  ]);
+
+  // The background fills were bounded by, drawn once
+  let backdrop: Ctx2D | null = null;
+  if (doc.background) {
+    const image = await decodeImage(doc.background.src);
+    backdrop = get2d(createCanvas(width, height));
+    drawBackground(
+      backdrop,
+      image,
+      backgroundPlacement(
+        image.width,
+        image.height,
+        doc.width,
+        doc.height,
+        doc.background.fit,
+      ),
+      scale,
+    );
+  }
+
+  const schedule = timelapseSchedule(events, maxGap);
+
+  const layerCtx = new Map<string, Ctx2D>();
+  const ctxFor = (id: string) => {
+    let ctx = layerCtx.get(id);
+    if (!ctx) {
+      ctx = get2d(createCanvas(width, height));
+      layerCtx.set(id, ctx);
+    }
+    return ctx;
+  };
+  const scratch = get2d(createCanvas(width, height));
+
+  // Events applied so far, and the document they've made
+  let applied = 0;
+  let ops: PaintOp[] = [];
+  let layers = doc.layers;
+
+  const render = (list: PaintOp[]) =>
+    renderOps(ctxFor, list, scale, backdrop?.canvas, layers, brushFor);
+
+  function reset() {
+    for (const ctx of layerCtx.values()) {
+      ctx.clearRect(0, 0, width, height);
+    }
+    applied = 0;
+    ops = [...doc.ops];
+    layers = doc.layers;
+    render(ops);
+  }
+
+  // Brings the layers up to the first `count` events
+  function advance(count: number) {
+    if (count < applied) reset();
+    let rebuild = false;
+    const added: PaintOp[] = [];
+    for (; applied < count; applied++) {
+      const event = events[applied];
+      if (event.keep < ops.length) rebuild = true;
+      ops = [...ops.slice(0, event.keep), ...event.add.map(({ op }) => op)];
+      added.push(...event.add.map(({ op }) => op));
+      layers = event.layers ?? layers;
+    }
+    if (!rebuild) {
+      render(added);
+      return;
+    }
+    for (const ctx of layerCtx.values()) {
+      ctx.clearRect(0, 0, width, height);
+    }
+    render(ops);
+  }
+
+  reset();
+
+  return {
+    /** Length of the timelapse in ms, at normal speed. */
+    duration: schedule.at(-1)?.end ?? 0,
+    width,
+    height,
+    /** Draws the drawing `time` ms in onto `target`, same size as this. */
+    draw(target: Ctx2D, time: number) {
+      let done = 0;
+      while (done < events.length && schedule[done].end <= time) done++;
+      advance(done);
+
+      // The strokes of the event under way, as far as they've got
+      const partial = new Map<string, PaintOp[]>();
+      const next = events[done];
+      if (next && schedule[done].start < time) {
+        const elapsed = time - schedule[done].start;
+        for (const { op, times } of next.add) {
+          if (op.type !== "stroke" || !times) continue;
+          const count = times.findIndex((t) => t > elapsed);
+          const points = count === -1 ? op.points : op.points.slice(0, count);
+          if (!points.length) continue;
+          const list = partial.get(op.layer) ?? [];
+          list.push({ ...op, points });
+          partial.set(op.layer, list);
+        }
+      }
+
+      target.save();
+      target.setTransform(1, 0, 0, 1, 0, 0);
+      target.clearRect(0, 0, width, height);
+      target.restore();
+      if (backdrop) compositeLayer(target, backdrop.canvas, 1, "source-over");
+      flattenLayers(target, layers, (id) => {
+        const strokes = partial.get(id);
+        if (!strokes) return layerCtx.get(id)?.canvas;
+        scratch.clearRect(0, 0, width, height);
+        compositeLayer(scratch, ctxFor(id).canvas, 1, "source-over");
+        for (const op of strokes) {
+          renderOp(scratch, op, scale, undefined, undefined, brushFor);
+        }
+        return scratch.canvas;
+      });
+    },
+  };
+}
+
+export type Timelapse = Awaited<ReturnType<typeof createTimelapse>>;
+
+/** Settings for a timelapse video. */
+export type TimelapseVideoOptions = TimelapseOptions & {
+  /**
+   * Times faster than it was drawn.
+   * @default 4
+   */
+  speed?: number;
+  /** @default 30 */
+  fps?: number;
+  /** @default "video/webm" */
+  mimeType?: string;
+};
+
+/**
+ * Records the timelapse of `recording` as a video, in real time at `speed`,
+ * via `MediaRecorder` on a canvas's `captureStream()`. Resolves with the
+ * video once it's played through; rejects straight away when the browser
+ * can't record `mimeType`, and stops recording and rejects if a frame fails
+ * to draw.
+ */
+export async function recordTimelapseVideo(
+  recording: PaintRecording,
+  {
+    speed = 4,
+    fps = 30,
+    mimeType = "video/webm",
+    ...options
+  }: TimelapseVideoOptions = {},
+): Promise<Blob> {
+  if (typeof MediaRecorder === "undefined") {
+    throw new Error("Video export needs MediaRecorder");
+  }
+  if (!MediaRecorder.isTypeSupported(mimeType)) {
+    throw new Error(`This browser can't record ${mimeType} video`);
+  }
+  const timelapse = await createTimelapse(recording, options);
+  const canvas = document.createElement("canvas");
+  canvas.width = timelapse.width;
+  canvas.height = timelapse.height;
+  const ctx = canvas.getContext("2d")!;
+  const recorder = new MediaRecorder(canvas.captureStream(fps), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (ev) => chunks.push(ev.data);
+  const stopped = new Promise((resolve) => (recorder.onstop = resolve));
+
+  timelapse.draw(ctx, 0);
+  recorder.start();
+  const start = performance.now();
+  try {
+    await new Promise<void>((resolve, reject) => {
+      // Frames run from timers, so a draw that throws has to reject here
+      const frame = () => {
+        try {
+          const time = (performance.now() - start) * speed;
+          timelapse.draw(ctx, Math.min(time, timelapse.duration));
+          if (time >= timelapse.duration) resolve();
+          else setTimeout(frame, 1000 / fps);
+        } catch (error) {
+          reject(error);
+        }
+      };
+      frame();
+    });
+  } catch (error) {
+    recorder.stop();
+    throw error;
+  }
+  // The last frame held briefly, so the video doesn't end on its first show
+  await new Promise((resolve) => setTimeout(resolve, 500));
+  recorder.stop();
+  await stopped;
+  return new Blob(chunks, { type: mimeType });
+}
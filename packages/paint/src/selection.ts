@@ -0,0 +1,285 @@
+import { createCanvas, get2d, type Ctx2D } from "./draw";
+import type { PixelRect } from "./history";
+
+/**
+ * Placement of floating pixels: drawn stretched to `w` × `h` with the
+ * unrotated top-left at `x`/`y`, then rotated by `rotation` radians about the
+ * centre. Document units.
+ */
+export type FloatTransform = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  rotation: number;
+};
+
+/** A selection's source region: its bounding box plus, for lasso, the outline. */
+export type SelectionRegion = {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  /** Lasso outline in document units; omitted for rectangular selections. */
+  path?: Array<{ x: number; y: number }>;
+};
+
+/** Which part of a floating selection a point is over. */
+export type SelectionHandle = "move" | "rotate" | "nw" | "ne" | "se" | "sw";
+
+/** Handle hit radius and rotate-knob offset, in document units. */
+const HANDLE_SIZE = 8;
+const ROTATE_OFFSET = 24;
+
+function tracePath(
+  ctx: Ctx2D,
+  path: Array<{ x: number; y: number }>,
+  dx = 0,
+  dy = 0,
+) {
+  ctx.beginPath();
+  ctx.moveTo(path[0].x + dx, path[0].y + dy);
+  for (let i = 1; i < path.length; i++) {
+    ctx.lineTo(path[i].x + dx, path[i].y + dy);
+  }
+  ctx.closePath();
+}
+
+/** Bounding box of a lasso outline, rounded outwards to whole units. */
+export function pathBounds(path: Array<{ x: number; y: number }>) {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const p of path) {
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  const x = Math.floor(minX);
+  const y = Math.floor(minY);
+  return { x, y, w: Math.ceil(maxX) - x, h: Math.ceil(maxY) - y };
+}
+
+/**
+ * Cuts `region` out of `ctx`: returns its pixels (masked to the lasso path)
+ * on a new canvas and clears them from `ctx`. `scale` maps document units to
+ * canvas pixels.
+ */
+export function liftRegion(ctx: Ctx2D, region: SelectionRegion, scale = 1) {
+  const w = Math.max(1, Math.round(region.w * scale));
+  const h = Math.max(1, Math.round(region.h * scale));
+  const lifted = createCanvas(w, h);
+  const lctx = get2d(lifted);
+  lctx.setTransform(scale, 0, 0, scale, 0, 0);
+  if (region.path) {
+    tracePath(lctx, region.path, -region.x, -region.y);
+    lctx.clip();
+  }
+  lctx.setTransform(1, 0, 0, 1, 0, 0);
+  lctx.drawImage(ctx.canvas, -region.x * scale, -region.y * scale);
+
+  ctx.save();
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  if (region.path) {
+    tracePath(ctx, region.path);
+    ctx.clip();
+  }
+  ctx.clearRect(region.x, region.y, region.w, region.h);
+  ctx.restore();
+  return lifted;
+}
+
+/** Draws floating pixels onto `ctx` at `t`. */
+export function drawFloating(
+  ctx: Ctx2D,
+  image: CanvasImageSource,
+  t: FloatTransform,
+  scale = 1,
+) {
+  ctx.save();
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  ctx.globalCompositeOperation = "source-over";
+  ctx.translate(t.x + t.w / 2, t.y + t.h / 2);
+  ctx.rotate(t.rotation);
+  ctx.drawImage(image, -t.w / 2, -t.h / 2, t.w, t.h);
+  ctx.restore();
+}
+
+/** The transform's corners in document space, clockwise from top-left. */
+export function floatCorners(t: FloatTransform) {
+  const cx = t.x + t.w / 2;
+  const cy = t.y + t.h / 2;
+  const cos = Math.cos(t.rotation);
+  const sin = Math.sin(t.rotation);
+  return [
+    [-1, -1],
+    [1, -1],
+    [1, 1],
+    [-1, 1],
+  ].map(([sx, sy]) => {
+    const lx = (sx * t.w) / 2;
+    const ly = (sy * t.h) / 2;
+    return { x: cx + lx * cos - ly * sin, y: cy + lx * sin + ly * cos };
+  });
+}
+
+function rotateKnob(t: FloatTransform) {
+  const cx = t.x + t.w / 2;
+  const cy = t.y + t.h / 2;
+  const d = t.h / 2 + ROTATE_OFFSET;
+  return { x: cx + d * Math.sin(t.rotation), y: cy - d * Math.cos(t.rotation) };
+}
+
+/** Axis-aligned bounds of the transformed selection, in document units. */
+export function floatBounds(t: FloatTransform) {
+  return pathBounds(floatCorners(t));
+}
+
+/** Which handle (if any) of a floating selection is under (x, y). */
+export function hitTestFloating(
+  t: FloatTransform,
+  x: number,
+  y: number,
+): SelectionHandle | null {
+  const knob = rotateKnob(t);
+  if (Math.hypot(x - knob.x, y - knob.y) <= HANDLE_SIZE) return "rotate";
+
+  const names: SelectionHandle[] = ["nw", "ne", "se", "sw"];
+  const corners = floatCorners(t);
+  for (let i = 0; i < 4; i++) {
+    if (Math.hypot(x - corners[i].x, y - corners[i].y) <= HANDLE_SIZE) {
+      return names[i];
+    }
+  }
+
+  // Inside test in the selection's unrotated frame
+  const cx = t.x + t.w / 2;
+  const cy = t.y + t.h / 2;
+  const cos = Math.cos(-t.rotation);
+  const sin = Math.sin(-t.rotation);
+  const lx = (x - cx) * cos - (y - cy) * sin;
+  const ly = (x - cx) * sin + (y - cy) * cos;
+  return Math.abs(lx) <= t.w / 2 && Math.abs(ly) <= t.h / 2 ? "move" : null;
+}
+
+/**
+ * New transform for dragging `handle` from (sx, sy) to (x, y), starting from
+ * `t`. Corner drags keep the opposite corner fixed (`keepAspect` locks the
+ * ratio); rotation snaps to 15° steps when `snap` is set.
+ */
+export function dragFloating(
+  t: FloatTransform,
+  handle: SelectionHandle,
+  sx: number,
+  sy: number,
+  x: number,
+  y: number,
+  { keepAspect = false, snap = false } = {},
+): FloatTransform {
+  const cx = t.x + t.w / 2;
+  const cy = t.y + t.h / 2;
+
+  if (handle === "move") {
+    return { ...t, x: t.x + x - sx, y: t.y + y - sy };
+  }
+
+  if (handle === "rotate") {
+    let rotation =
+      t.rotation + Math.atan2(y - cy, x - cx) - Math.atan2(sy - cy, sx - cx);
+    if (snap) {
+      const step = Math.PI / 12;
+      rotation = Math.round(rotation / step) * step;
+    }
+    return { ...t, rotation };
+  }
+
+  // Pointer delta in the selection's unrotated frame
+  const cos = Math.cos(t.rotation);
+  const sin = Math.sin(t.rotation);
+  const dx = x - sx;
+  const dy = y - sy;
+  const ldx = dx * cos + dy * sin;
+  const ldy = -dx * sin + dy * cos;
+  const signX = handle === "ne" || handle === "se" ? 1 : -1;
+  const signY = handle === "sw" || handle === "se" ? 1 : -1;
+
+  let w = Math.max(1, t.w + signX * ldx);
+  let h = Math.max(1, t.h + signY * ldy);
+  if (keepAspect) {
+    const k = Math.max(w / t.w, h / t.h);
+    w = t.w * k;
+    h = t.h * k;
+  }
+
+  // Shift the centre so the opposite corner stays put
+  const lcx = (signX * (w - t.w)) / 2;
+  const lcy = (signY * (h - t.h)) / 2;
+  const ncx = cx + lcx * cos - lcy * sin;
+  const ncy = cy + lcx * sin + lcy * cos;
+  return { x: ncx - w / 2, y: ncy - h / 2, w, h, rotation: t.rotation };
+}
+
+/** Dashed outline, corner handles and rotate knob for a floating selection. */
+export function drawSelectionChrome(ctx: Ctx2D, t: FloatTransform) {
+  const corners = floatCorners(t);
+  const knob = rotateKnob(t);
+  const topMid = {
+    x: (corners[0].x + corners[1].x) / 2,
+    y: (corners[0].y + corners[1].y) / 2,
+  };
+
+  drawMarquee(ctx, corners);
+
+  ctx.save();
+  ctx.lineWidth = 1;
+  ctx.globalCompositeOperation = "source-over";
+  ctx.strokeStyle = "#000";
+  ctx.fillStyle = "#fff";
+  ctx.beginPath();
+  ctx.moveTo(topMid.x, topMid.y);
+  ctx.lineTo(knob.x, knob.y);
+  ctx.stroke();
+  for (const p of [...corners, knob]) {
+    ctx.beginPath();
+    ctx.arc(p.x, p.y, HANDLE_SIZE / 2, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/** Dashed preview of a selection being dragged out (rect corners or lasso path). */
+export function drawMarquee(ctx: Ctx2D, path: Array<{ x: number; y: number }>) {
+  if (path.length < 2) return;
+  ctx.save();
+  ctx.lineWidth = 1;
+  ctx.globalCompositeOperation = "source-over";
+  // Black-on-white dashes stay visible on any background
+  for (const [color, offset] of [
+    ["#fff", 0],
+    ["#000", 4],
+  ] as const) {
+    ctx.strokeStyle = color;
+    ctx.setLineDash([4, 4]);
+    ctx.lineDashOffset = offset;
+    tracePath(ctx, path);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+/** Union of two pixel rects, clamped to a `width` × `height` canvas. */
+export function unionRect(
+  a: PixelRect | null,
+  b: PixelRect | null,
+  width: number,
+  height: number,
+): PixelRect | null {
+  const rects = [a, b].filter((r): r is PixelRect => !!r);
+  if (rects.length === 0) return null;
+  const x = Math.max(0, Math.min(...rects.map((r) => r.x)));
+  const y = Math.max(0, Math.min(...rects.map((r) => r.y)));
+  const x1 = Math.min(width, Math.max(...rects.map((r) => r.x + r.w)));
+  const y1 = Math.min(height, Math.max(...rects.map((r) => r.y + r.h)));
+  if (x1 <= x || y1 <= y) return null;
+  return { x, y, w: x1 - x, h: y1 - y };
+}
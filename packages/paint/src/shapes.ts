@@ -0,0 +1,181 @@
+import type { Ctx2D } from "./draw";
+import { rectFromPoints } from "./history";
+
+export type PaintShapeKind = "line" | "rect" | "ellipse" | "polygon" | "arrow";
+
+/** Outline only, filled only, or filled and outlined. Lines and arrows always stroke. */
+export type PaintShapeStyle = "stroke" | "fill" | "both";
+
+export const PAINT_SHAPES: PaintShapeKind[] = [
+  "line",
+  "rect",
+  "ellipse",
+  "polygon",
+  "arrow",
+];
+
+export const isShapeTool = (tool: string): tool is PaintShapeKind =>
+  (PAINT_SHAPES as string[]).includes(tool);
+
+/** Resolved shape geometry: the drag's two corners (or a line's two ends). */
+export type ShapeGeometry = { x0: number; y0: number; x1: number; y1: number };
+
+/** Modifier keys held while dragging a shape. */
+export type ShapeModifiers = {
+  /** Square / circle / regular bounds, or 45° steps for lines and arrows. */
+  constrain: boolean;
+  /** The drag start is the centre rather than a corner / end. */
+  fromCenter: boolean;
+};
+
+/**
+ * Turns a drag from (sx, sy) to (x, y) into final geometry, applying Shift
+ * (constrain) and Alt (from centre).
+ */
+export function shapeGeometry(
+  kind: PaintShapeKind,
+  sx: number,
+  sy: number,
+  x: number,
+  y: number,
+  { constrain, fromCenter }: ShapeModifiers,
+): ShapeGeometry {
+  let dx = x - sx;
+  let dy = y - sy;
+
+  if (constrain) {
+    if (kind === "line" || kind === "arrow") {
+      const step = Math.PI / 4;
+      const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+      const len = Math.hypot(dx, dy);
+      dx = Math.cos(angle) * len;
+      dy = Math.sin(angle) * len;
+    } else {
+      const size = Math.max(Math.abs(dx), Math.abs(dy));
+      dx = Math.sign(dx || 1) * size;
+      dy = Math.sign(dy || 1) * size;
+    }
+  }
+
+  return fromCenter
+    ? { x0: sx - dx, y0: sy - dy, x1: sx + dx, y1: sy + dy }
+    : { x0: sx, y0: sy, x1: sx + dx, y1: sy + dy };
+}
+
+/** Arrowhead length for a given stroke width. */
+export const arrowHeadSize = (width: number) => Math.max(10, width * 3);
+
+/**
+ * Vertices of a regular polygon inscribed in the ellipse that fits the
+ * geometry's bounding box, first vertex pointing up.
+ */
+export function polygonPoints(g: ShapeGeometry, sides: number) {
+  const cx = (g.x0 + g.x1) / 2;
+  const cy = (g.y0 + g.y1) / 2;
+  const rx = Math.abs(g.x1 - g.x0) / 2;
+  const ry = Math.abs(g.y1 - g.y0) / 2;
+  const n = Math.max(3, Math.round(sides));
+  const pts: Array<{ x: number; y: number }> = [];
+  for (let i = 0; i < n; i++) {
+    const a = -Math.PI / 2 + (i * 2 * Math.PI) / n;
+    pts.push({ x: cx + rx * Math.cos(a), y: cy + ry * Math.sin(a) });
+  }
+  return pts;
+}
+
+/**
+ * Draws a shape with the context's current stroke/fill styles. `lineWidth`
+ * must already be set (the arrowhead is sized from it).
+ */
+export function drawShape(
+  ctx: Ctx2D,
+  kind: PaintShapeKind,
+  g: ShapeGeometry,
+  style: PaintShapeStyle,
+  sides = 5,
+) {
+  ctx.beginPath();
+
+  if (kind === "line" || kind === "arrow") {
+    let { x1, y1 } = g;
+    const angle = Math.atan2(g.y1 - g.y0, g.x1 - g.x0);
+    const head = arrowHeadSize(ctx.lineWidth);
+    // Stop the shaft short of the tip so its round cap doesn't poke through
+    if (kind === "arrow" && Math.hypot(x1 - g.x0, y1 - g.y0) > head) {
+      x1 -= Math.cos(angle) * head * 0.5;
+      y1 -= Math.sin(angle) * head * 0.5;
+    }
+    ctx.moveTo(g.x0, g.y0);
+    ctx.lineTo(x1, y1);
+    ctx.stroke();
+
+    if (kind === "arrow") {
+      ctx.beginPath();
+      ctx.moveTo(g.x1, g.y1);
+      ctx.lineTo(
+        g.x1 - head * Math.cos(angle - Math.PI / 6),
+        g.y1 - head * Math.sin(angle - Math.PI / 6),
+      );
+      ctx.lineTo(
+        g.x1 - head * Math.cos(angle + Math.PI / 6),
+        g.y1 - head * Math.sin(angle + Math.PI / 6),
+      );
+      ctx.closePath();
+      ctx.fill();
+    }
+    return;
+  }
+
+  if (kind === "rect") {
+    ctx.rect(
+      Math.min(g.x0, g.x1),
+      Math.min(g.y0, g.y1),
+      Math.abs(g.x1 - g.x0),
+      Math.abs(g.y1 - g.y0),
+    );
+  } else if (kind === "ellipse") {
+    ctx.ellipse(
+      (g.x0 + g.x1) / 2,
+      (g.y0 + g.y1) / 2,
+      Math.abs(g.x1 - g.x0) / 2,
+      Math.abs(g.y1 - g.y0) / 2,
+      0,
+      0,
+      Math.PI * 2,
+    );
+  } else {
+    const pts = polygonPoints(g, sides);
+    ctx.moveTo(pts[0].x, pts[0].y);
+    for (let i = 1; i < pts.length; i++) ctx.lineTo(pts[i].x, pts[i].y);
+    ctx.closePath();
+  }
+
+  if (style !== "stroke") ctx.fill();
+  if (style !== "fill") ctx.stroke();
+}
+
+/**
+ * Pixel rect a shape can touch: its geometry's bounding box padded by half
+ * the stroke width (or the arrowhead), clamped to the canvas. `scale` maps
+ * document units to canvas pixels.
+ */
+export function rectFromShape(
+  kind: PaintShapeKind,
+  g: ShapeGeometry,
+  width: number,
+  canvasWidth: number,
+  canvasHeight: number,
+  scale = 1,
+) {
+  const pad = (kind === "arrow" ? arrowHeadSize(width) : width / 2) + 1;
+  return rectFromPoints(
+    [
+      { x: g.x0, y: g.y0 },
+      { x: g.x1, y: g.y1 },
+    ],
+    pad,
+    canvasWidth,
+    canvasHeight,
+    scale,
+  );
+}
@@ -0,0 +1,58 @@
+import type { PaintPoint } from "./paintDocument";
+
+// Cutoff frequencies in Hz. A slow hand gets the lowest cutoff (most
+// smoothing); it rises with speed so quick strokes don't lag behind.
+const MAX_MIN_CUTOFF = 8;
+const SPEED_COEFFICIENT = 0.01;
+const DERIVATIVE_CUTOFF = 1;
+// Assumed interval when two samples share a timestamp
+const FALLBACK_DT = 1 / 120;
+
+type FilterState = { x: number; y: number; dx: number; dy: number; t: number };
+
+const alpha = (cutoff: number, dt: number) =>
+  1 / (1 + 1 / (2 * Math.PI * cutoff * dt));
+
+/**
+ * A one-euro filter over stroke positions: jitter is smoothed away while the
+ * pen moves slowly, and the filter loosens as it speeds up. `strength` runs
+ * from 0 (barely any smoothing) to 1 (heavy). Width and pen pose pass through
+ * untouched. Times are `PointerEvent.timeStamp`s, in milliseconds.
+ */
+export function createStrokeSmoother(strength: number) {
+  const minCutoff = MAX_MIN_CUTOFF * (1 - Math.min(1, strength)) + 0.5;
+  let last: FilterState | null = null;
+
+  const step = (p: PaintPoint, time: number): FilterState => {
+    const t = time / 1000;
+    if (!last) return { x: p.x, y: p.y, dx: 0, dy: 0, t };
+    const dt = t > last.t ? t - last.t : FALLBACK_DT;
+    const a = alpha(DERIVATIVE_CUTOFF, dt);
+    const dx = last.dx + a * ((p.x - last.x) / dt - last.dx);
+    const dy = last.dy + a * ((p.y - last.y) / dt - last.dy);
+    const cutoff = minCutoff + SPEED_COEFFICIENT * Math.hypot(dx, dy);
+    const b = alpha(cutoff, dt);
+    return {
+      x: last.x + b * (p.x - last.x),
+      y: last.y + b * (p.y - last.y),
+      dx,
+      dy,
+      t: last.t + dt,
+    };
+  };
+
+  return {
+    /** Filters the next sample of the stroke. */
+    next(p: PaintPoint, time: number): PaintPoint {
+      last = step(p, time);
+      return { ...p, x: last.x, y: last.y };
+    },
+    /** Where `p` would land, without feeding it to the filter (predictions). */
+    peek(p: PaintPoint, time: number): PaintPoint {
+      const s = step(p, time);
+      return { ...p, x: s.x, y: s.y };
+    },
+  };
+}
+
+export type StrokeSmoother = ReturnType<typeof createStrokeSmoother>;
@@ -0,0 +1,53 @@
+import { getBrush, type BrushStroke } from "./brushes";
+import { createStrokePreview, type StrokePreview } from "./liveStroke";
+import type { PaintPoint } from "./paintDocument";
+
+/**
+ * Messages to the stroke worker, which draws the live preview of built-in
+ * brush strokes onto a canvas transferred from the page, off the main thread.
+ */
+export type StrokeWorkerMessage =
+  | { type: "canvas"; canvas: OffscreenCanvas }
+  | {
+      type: "start";
+      brush: string;
+      color: string;
+      width: number;
+      variable: boolean;
+      /** Backing size in canvas pixels, and canvas pixels per unit. */
+      size: { width: number; height: number; pixelRatio: number };
+    }
+  /** Points added since the last message, and the predicted ones after. */
+  | { type: "points"; points: PaintPoint[]; predicted: PaintPoint[] }
+  | { type: "end" };
+
+let canvas: OffscreenCanvas | null = null;
+let stroke: BrushStroke | null = null;
+let preview: StrokePreview | null = null;
+
+addEventListener("message", (ev: MessageEvent<StrokeWorkerMessage>) => {
+  const msg = ev.data;
+  if (msg.type === "canvas") {
+    canvas = msg.canvas;
+  } else if (msg.type === "start" && canvas) {
+    const { width, height, pixelRatio } = msg.size;
+    // Resizing clears the canvas, so only when the page's has changed
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    const ctx = canvas.getContext("2d")!;
+    ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, width, height);
+    const { color, width: w, variable } = msg;
+    stroke = { points: [], color, width: w, variable };
+    preview = createStrokePreview(ctx, getBrush(msg.brush));
+  } else if (msg.type === "points" && stroke && preview) {
+    stroke.points.push(...msg.points);
+    preview.frame(stroke, msg.predicted);
+  } else if (msg.type === "end") {
+    preview?.clear();
+    stroke = null;
+    preview = null;
+  }
+});
@@ -0,0 +1,261 @@
+import type { BackgroundPlacement } from "./background";
+import { cssBlendMode, type PaintBlendMode } from "./layers";
+import type { PaintDocument, PaintOp, PaintPoint } from "./paintDocument";
+import { arrowHeadSize, polygonPoints } from "./shapes";
+import { symmetricStrokes } from "./symmetry";
+import { TEXT_LINE_HEIGHT } from "./text";
+
+export type SvgExportOptions = {
+  /**
+   * Data URL of a layer as rendered. Used for layers whose ops can't all be
+   * expressed as vectors (fills, gradients, erasers, selections, non-round
+   * brushes).
+   */
+  rasterFor: (layer: string) => string;
+  /** Background image and where it sits, in document units. */
+  background?: { src: string; placement: BackgroundPlacement };
+  /** Visible area in document units. Defaults to the whole document. */
+  crop?: { x: number; y: number; w: number; h: number };
+};
+
+// Two decimals is well below a pixel and keeps the markup compact
+const n = (v: number) => +v.toFixed(2);
+
+const ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+const esc = (s: string) => s.replace(/[&<>"']/g, (c) => ESCAPES[c]);
+
+// Same midpoint-smoothed quadratics as drawBezierPath
+function bezierPath(pts: Array<{ x: number; y: number }>) {
+  let d = `M${n(pts[0].x)} ${n(pts[0].y)}`;
+  let i;
+  for (i = 1; i < pts.length - 2; i++) {
+    const c = (pts[i].x + pts[i + 1].x) / 2;
+    const e = (pts[i].y + pts[i + 1].y) / 2;
+    d += `Q${n(pts[i].x)} ${n(pts[i].y)} ${n(c)} ${n(e)}`;
+  }
+  d += `Q${n(pts[i].x)} ${n(pts[i].y)} ${n(pts[i + 1].x)} ${n(pts[i + 1].y)}`;
+  return d;
+}
+
+// Per-segment widths, as drawVariablePath strokes them
+function variablePath(pts: PaintPoint[]) {
+  const segments: string[] = [];
+  const mid = (a: PaintPoint, b: PaintPoint) =>
+    `${n((a.x + b.x) / 2)} ${n((a.y + b.y) / 2)}`;
+  let i;
+  for (i = 1; i < pts.length - 2; i++) {
+    segments.push(
+      `<path stroke-width="${n((pts[i].w + pts[i + 1].w) / 2)}" ` +
+        `d="M${mid(pts[i - 1], pts[i])}Q${n(pts[i].x)} ${n(pts[i].y)} ` +
+        `${mid(pts[i], pts[i + 1])}"/>`,
+    );
+  }
+  segments.push(
+    `<path stroke-width="${n((pts[i].w + pts[i + 1].w) / 2)}" ` +
+      `d="M${mid(pts[i - 1], pts[i])}Q${n(pts[i].x)} ${n(pts[i].y)} ` +
+      `${n(pts[i + 1].x)} ${n(pts[i + 1].y)}"/>`,
+  );
+  return segments.join("");
+}
+
+const ROUND = `stroke-linecap="round" stroke-linejoin="round"`;
+
+/** SVG markup for one op, or null when it only exists as pixels. */
+function opToSvg(op: PaintOp): string | null {
+  if (op.type === "stroke" && op.symmetry) {
+    // Each copy as a stroke of its own
+    const copies = symmetricStrokes(op, op.symmetry).map((copy) =>
+      opToSvg({ ...copy, symmetry: undefined }),
+    );
+    return copies.every((svg) => svg !== null) ? copies.join("") : null;
+  }
+
+  if (op.type === "stroke") {
+    // Only the round brush has a vector equivalent
+    const round = (op.brush ?? "round") === "round";
+    if (op.tool === "eraser" || !round || op.points.length === 0) return null;
+    const color = esc(op.color);
+    const pts = op.points;
+    if (pts.length < 3) {
+      const r = (op.variable ? pts[0].w : op.width) / 2;
+      return `<circle cx="${n(pts[0].x)}" cy="${n(pts[0].y)}" r="${n(r)}" fill="${color}"/>`;
+    }
+    if (op.variable) {
+      return `<g fill="none" stroke="${color}" ${ROUND}>${variablePath(pts)}</g>`;
+    }
+    return (
+      `<path d="${bezierPath(pts)}" fill="none" stroke="${color}" ` +
+      `stroke-width="${n(op.width)}" ${ROUND}/>`
+    );
+  }
+
+  if (op.type === "shape") {
+    const color = esc(op.color);
+    const stroke = `stroke="${color}" stroke-width="${n(op.width)}" ${ROUND}`;
+
+    if (op.shape === "line" || op.shape === "arrow") {
+      let { x1, y1 } = op;
+      const angle = Math.atan2(op.y1 - op.y0, op.x1 - op.x0);
+      const head = arrowHeadSize(op.width);
+      if (op.shape === "arrow" && Math.hypot(x1 - op.x0, y1 - op.y0) > head) {
+        x1 -= Math.cos(angle) * head * 0.5;
+        y1 -= Math.sin(angle) * head * 0.5;
+      }
+      const line = `<line x1="${n(op.x0)}" y1="${n(op.y0)}" x2="${n(x1)}" y2="${n(y1)}" ${stroke}/>`;
+      if (op.shape === "line") return line;
+      const tip = [
+        [op.x1, op.y1],
+        [
+          op.x1 - head * Math.cos(angle - Math.PI / 6),
+          op.y1 - head * Math.sin(angle - Math.PI / 6),
+        ],
+        [
+          op.x1 - head * Math.cos(angle + Math.PI / 6),
+          op.y1 - head * Math.sin(angle + Math.PI / 6),
+        ],
+      ];
+      const points = tip.map(([x, y]) => `${n(x)},${n(y)}`).join(" ");
+      return `<g>${line}<polygon points="${points}" fill="${color}"/></g>`;
+    }
+
+    const paint =
+      `fill="${op.style === "stroke" ? "none" : color}" ` +
+      (op.style === "fill" ? `stroke="none"` : stroke);
+    const x = Math.min(op.x0, op.x1);
+    const y = Math.min(op.y0, op.y1);
+    const w = Math.abs(op.x1 - op.x0);
+    const h = Math.abs(op.y1 - op.y0);
+    if (op.shape === "rect") {
+      return `<rect x="${n(x)}" y="${n(y)}" width="${n(w)}" height="${n(h)}" ${paint}/>`;
+    }
+    if (op.shape === "ellipse") {
+      return `<ellipse cx="${n(x + w / 2)}" cy="${n(y + h / 2)}" rx="${n(w / 2)}" ry="${n(h / 2)}" ${paint}/>`;
+    }
+    const points = polygonPoints(op, op.sides ?? 5)
+      .map((p) => `${n(p.x)},${n(p.y)}`)
+      .join(" ");
+    return `<polygon points="${points}" ${paint}/>`;
+  }
+
+  if (op.type === "text") {
+    const lineHeight = op.fontSize * TEXT_LINE_HEIGHT;
+    const leading = (lineHeight - op.fontSize) / 2;
+    const anchor =
+      op.align === "left" ? "start" : op.align === "center" ? "middle" : "end";
+    const lines = op.text
+      .split("\n")
+      .map(
+        (line, i) =>
+          `<text x="${n(op.x)}" y="${n(op.y + leading + i * lineHeight)}">${esc(line)}</text>`,
+      )
+      .join("");
+    return (
+      `<g fill="${esc(op.color)}" font-family="${esc(op.fontFamily)}" ` +
+      `font-size="${op.fontSize}" font-weight="${op.fontWeight}" ` +
+      `text-anchor="${anchor}" dominant-baseline="text-before-edge" ` +
+      `xml:space="preserve">${lines}</g>`
+    );
+  }
+
+  if (op.type === "image") {
+    const { x, y, w, h, rotation } = op.to;
+    const deg = (rotation * 180) / Math.PI;
+    return (
+      `<image href="${esc(op.src)}" x="${n(-w / 2)}" y="${n(-h / 2)}" ` +
+      `width="${n(w)}" height="${n(h)}" preserveAspectRatio="none" ` +
+      `transform="translate(${n(x + w / 2)} ${n(y + h / 2)}) rotate(${n(deg)})"/>`
+    );
+  }
+
+  // Fills, gradients and selections are defined by the pixels they touched
+  return null;
+}
+
+const layerStyle = (opacity: number, blendMode: PaintBlendMode) =>
+  `opacity="${opacity}"` +
+  (blendMode === "source-over"
+    ? ""
+    : ` style="mix-blend-mode:${cssBlendMode(blendMode)}"`);
+
+/**
+ * Serialises a document as SVG: strokes, shapes, text and placed images
+ * become vector elements, one group per visible layer. A layer with any op
+ * that only exists as pixels (a fill, gradient, eraser stroke, selection or
+ * textured brush stroke) is embedded whole as an image from `rasterFor` instead.
+ */
+export function documentToSvg(
+  doc: PaintDocument,
+  { rasterFor, background, crop }: SvgExportOptions,
+) {
+  // Vector markup per layer, built up in op order like renderOps
+  const out = new Map<string, { parts: string[]; vector: boolean }>();
+  const layerOut = (id: string) => {
+    let l = out.get(id);
+    if (!l) {
+      l = { parts: [], vector: true };
+      out.set(id, l);
+    }
+    return l;
+  };
+
+  for (const op of doc.ops) {
+    const l = layerOut(op.layer);
+    if (op.type === "clear") {
+      l.parts = [];
+      l.vector = true;
+    } else if (op.type === "merge") {
+      const source = layerOut(op.source);
+      if (!source.vector) {
+        l.vector = false;
+      } else {
+        l.parts.push(
+          `<g ${layerStyle(op.opacity, op.blendMode)}>${source.parts.join("")}</g>`,
+        );
+      }
+    } else if (l.vector) {
+      const svg = opToSvg(op);
+      if (svg === null) l.vector = false;
+      else l.parts.push(svg);
+    }
+  }
+
+  const { x, y, w, h } = crop ?? {
+    x: 0,
+    y: 0,
+    w: doc.width,
+    h: doc.height,
+  };
+  const body: string[] = [];
+  if (background) {
+    const p = background.placement;
+    body.push(
+      `<image href="${esc(background.src)}" x="${n(p.x)}" y="${n(p.y)}" ` +
+        `width="${n(p.w)}" height="${n(p.h)}" preserveAspectRatio="none"/>`,
+    );
+  }
+  for (const layer of doc.layers) {
+    if (!layer.visible) continue;
+    const l = layerOut(layer.id);
+    const content = l.vector
+      ? l.parts.join("")
+      : `<image href="${rasterFor(layer.id)}" width="${doc.width}" ` +
+        `height="${doc.height}" preserveAspectRatio="none"/>`;
+    body.push(
+      `<g ${layerStyle(layer.opacity, layer.blendMode)}>${content}</g>`,
+    );
+  }
+
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${n(w)}" height="${n(h)}" ` +
+    `viewBox="${n(x)} ${n(y)} ${n(w)} ${n(h)}">` +
+    // Layers blend with each other, not with whatever the SVG is shown on
+    `<g style="isolation:isolate">${body.join("")}</g></svg>`
+  );
+}
@@ -0,0 +1,191 @@
+import type { Brush, BrushStroke } from "./brushes";
+import type { Ctx2D } from "./draw";
+import type { PaintPoint } from "./paintDocument";
+
+/**
+ * Horizontal mirrors the left and right halves, vertical the top and bottom;
+ * radial repeats strokes `count` times round the centre.
+ */
+export type PaintSymmetryMode = "none" | "horizontal" | "vertical" | "radial";
+
+/** Settings for mirrored drawing with the brush and eraser. */
+export type PaintSymmetry = {
+  mode: PaintSymmetryMode;
+  /** Radial only: copies round the centre, 2 or more. */
+  count: number;
+  /** Radial only: mirror each copy as well, like a kaleidoscope. */
+  mirror: boolean;
+  /** In document units; null is the middle of the document. */
+  center: { x: number; y: number } | null;
+  /** Show the axes over the canvas, with a handle to move the centre. */
+  guides: boolean;
+};
+
+export const DEFAULT_SYMMETRY: PaintSymmetry = {
+  mode: "none",
+  count: 6,
+  mirror: false,
+  center: null,
+  guides: true,
+};
+
+export const PAINT_SYMMETRY_MODES: PaintSymmetryMode[] = [
+  "none",
+  "horizontal",
+  "vertical",
+  "radial",
+];
+
+/** The symmetry a stroke was drawn with, as stored on it. */
+export type PaintSymmetryAxes = {
+  mode: Exclude<PaintSymmetryMode, "none">;
+  count: number;
+  mirror: boolean;
+  /** The centre, in document units. */
+  x: number;
+  y: number;
+};
+
+/** The axes `symmetry` draws with on a document, or null when it's off. */
+export function symmetryAxes(
+  symmetry: PaintSymmetry,
+  width: number,
+  height: number,
+): PaintSymmetryAxes | null {
+  const { mode, count, mirror, center } = symmetry;
+  if (mode === "none") return null;
+  const { x, y } = center ?? { x: width / 2, y: height / 2 };
+  return {
+    mode,
+    count: Math.max(2, Math.round(count)),
+    mirror: mode === "radial" && mirror,
+    x,
+    y,
+  };
+}
+
+// An affine map (x, y) → (a·x + c·y + e, b·x + d·y + f), as in DOMMatrix
+type Matrix = [number, number, number, number, number, number];
+
+// The linear part a b c d applied about the centre
+const about = (
+  { x, y }: PaintSymmetryAxes,
+  a: number,
+  b: number,
+  c: number,
+  d: number,
+): Matrix => [a, b, c, d, x - (a * x + c * y), y - (b * x + d * y)];
+
+/** One matrix per copy a stroke is drawn as, the identity (itself) first. */
+export function symmetryMatrices(axes: PaintSymmetryAxes): Matrix[] {
+  if (axes.mode === "horizontal") {
+    return [about(axes, 1, 0, 0, 1), about(axes, -1, 0, 0, 1)];
+  }
+  if (axes.mode === "vertical") {
+    return [about(axes, 1, 0, 0, 1), about(axes, 1, 0, 0, -1)];
+  }
+  const out: Matrix[] = [];
+  for (let k = 0; k < axes.count; k++) {
+    const t = (k * 2 * Math.PI) / axes.count;
+    const cos = Math.cos(t);
+    const sin = Math.sin(t);
+    out.push(about(axes, cos, sin, -sin, cos));
+  }
+  // Each rotation after a left–right flip
+  if (axes.mirror) {
+    for (let k = 0; k < axes.count; k++) {
+      const t = (k * 2 * Math.PI) / axes.count;
+      const cos = Math.cos(t);
+      const sin = Math.sin(t);
+      out.push(about(axes, -cos, -sin, -sin, cos));
+    }
+  }
+  return out;
+}
+
+/**
+ * Directions, in radians clockwise from right, of the rays out of the centre
+ * that divide the copies: the mirror lines, or each radial copy's edge.
+ */
+export function symmetryGuideAngles(axes: PaintSymmetryAxes): number[] {
+  if (axes.mode === "horizontal") return [-Math.PI / 2, Math.PI / 2];
+  if (axes.mode === "vertical") return [0, Math.PI];
+  // Mirrored copies meet along lines halfway between the rotations
+  const rays = axes.mirror ? axes.count * 2 : axes.count;
+  return Array.from(
+    { length: rays },
+    (_, k) => -Math.PI / 2 + (k * 2 * Math.PI) / rays,
+  );
+}
+
+// A point through `m`, with the pen's tilt and twist turned to match
+function transformPoint(p: PaintPoint, m: Matrix): PaintPoint {
+  const [a, b, c, d, e, f] = m;
+  const out: PaintPoint = {
+    ...p,
+    x: a * p.x + c * p.y + e,
+    y: b * p.x + d * p.y + f,
+  };
+  if (p.tiltX !== undefined || p.tiltY !== undefined) {
+    const tx = p.tiltX ?? 0;
+    const ty = p.tiltY ?? 0;
+    out.tiltX = a * tx + c * ty;
+    out.tiltY = b * tx + d * ty;
+  }
+  if (p.twist !== undefined) {
+    const turn = (Math.atan2(b, a) * 180) / Math.PI;
+    // A mirrored copy's pen turns the other way
+    const twist = a * d - b * c < 0 ? turn - p.twist : turn + p.twist;
+    out.twist = ((twist % 360) + 360) % 360;
+  }
+  return out;
+}
+
+/** `stroke` and its mirrored copies, itself first. */
+export function symmetricStrokes<T extends BrushStroke>(
+  stroke: T,
+  axes: PaintSymmetryAxes,
+): T[] {
+  return symmetryMatrices(axes).map((m, i) =>
+    i === 0
+      ? stroke
+      : { ...stroke, points: stroke.points.map((p) => transformPoint(p, m)) },
+  );
+}
+
+/**
+ * `brush`, drawing every copy of each stroke. Copies are drawn one after
+ * another, so translucent ones darken where they overlap.
+ */
+export function symmetricBrush(brush: Brush, axes: PaintSymmetryAxes): Brush {
+  const each = (
+    ctx: Ctx2D,
+    stroke: BrushStroke,
+    draw: (s: BrushStroke) => void,
+  ) => {
+    for (const s of symmetricStrokes(stroke, axes)) {
+      ctx.save();
+      draw(s);
+      ctx.restore();
+    }
+  };
+  return {
+    ...brush,
+    draw: (ctx, stroke) => each(ctx, stroke, (s) => brush.draw(ctx, s)),
+    drawSince:
+      brush.drawSince &&
+      ((ctx, stroke, from) =>
+        each(ctx, stroke, (s) => brush.drawSince!(ctx, s, from))),
+  };
+}
+
+/** `points` and every copy of them, for sizing what a stroke touched. */
+export const symmetricPoints = (
+  points: PaintPoint[],
+  axes: PaintSymmetryAxes | null | undefined,
+) =>
+  axes
+    ? symmetryMatrices(axes).flatMap((m) =>
+        points.map((p) => transformPoint(p, m)),
+      )
+    : points;
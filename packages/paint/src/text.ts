@@ -0,0 +1,95 @@
+import type { Ctx2D } from "./draw";
+import { rectFromPoints } from "./history";
+
+export type PaintTextAlign = "left" | "center" | "right";
+
+/** Font settings for the text tool. */
+export type PaintTextOptions = {
+  /** Any CSS `font-family` value, e.g. `"Georgia, serif"`. */
+  fontFamily: string;
+  /** In CSS pixels. */
+  fontSize: number;
+  /** CSS numeric weight, 100–900. */
+  fontWeight: number;
+  /** Alignment of each line relative to the anchor point. */
+  align: PaintTextAlign;
+};
+
+export const DEFAULT_TEXT_OPTIONS: PaintTextOptions = {
+  fontFamily: "sans-serif",
+  fontSize: 24,
+  fontWeight: 400,
+  align: "left",
+};
+
+/** Line height as a multiple of font size — shared by the editor box and the raster. */
+export const TEXT_LINE_HEIGHT = 1.2;
+
+export const cssFont = (o: PaintTextOptions) =>
+  `${o.fontWeight} ${o.fontSize}px ${o.fontFamily}`;
+
+/** Width of the longest line and total height of a (multi-line) text block. */
+export function measureTextBlock(
+  ctx: Ctx2D,
+  text: string,
+  o: PaintTextOptions,
+) {
+  ctx.save();
+  ctx.font = cssFont(o);
+  const lines = text.split("\n");
+  const width = Math.max(...lines.map((l) => ctx.measureText(l).width));
+  ctx.restore();
+  return { width, height: lines.length * o.fontSize * TEXT_LINE_HEIGHT };
+}
+
+/**
+ * Fills `text` line by line with its top at `y`. `x` is the left edge, centre
+ * or right edge of every line depending on `align`. Uses the current
+ * `fillStyle`.
+ */
+export function drawTextBlock(
+  ctx: Ctx2D,
+  text: string,
+  x: number,
+  y: number,
+  o: PaintTextOptions,
+) {
+  ctx.save();
+  ctx.font = cssFont(o);
+  ctx.textAlign = o.align;
+  ctx.textBaseline = "top";
+  const lineHeight = o.fontSize * TEXT_LINE_HEIGHT;
+  // Centre each glyph line in its line box, as CSS line-height does
+  const leading = (lineHeight - o.fontSize) / 2;
+  text.split("\n").forEach((line, i) => {
+    ctx.fillText(line, x, y + leading + i * lineHeight);
+  });
+  ctx.restore();
+}
+
+/**
+ * Pixel rect a text block can touch, with slack for overhanging glyphs.
+ * `scale` maps document units to canvas pixels.
+ */
+export function rectFromText(
+  ctx: Ctx2D,
+  text: string,
+  x: number,
+  y: number,
+  o: PaintTextOptions,
+  scale = 1,
+) {
+  const { width, height } = measureTextBlock(ctx, text, o);
+  const left =
+    o.align === "left" ? x : o.align === "center" ? x - width / 2 : x - width;
+  return rectFromPoints(
+    [
+      { x: left, y },
+      { x: left + width, y: y + height },
+    ],
+    o.fontSize * 0.3 + 1,
+    ctx.canvas.width,
+    ctx.canvas.height,
+    scale,
+  );
+}
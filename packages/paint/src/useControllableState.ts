@@ -0,0 +1,37 @@
+import { useRef, useState } from "react";
+
+/**
+ * State that the parent can own (`value` defined) or leave to the component
+ * (seeded once from `defaultValue`). `onChange` fires for every change made
+ * from inside, either way. The setter reads the latest value through a ref,
+ * so it's safe to call from handlers bound once.
+ */
+export default function useControllableState<T>(
+  value: T | undefined,
+  defaultValue: T,
+  onChange?: (value: T) => void,
+) {
+  const [internal, setInternal] = useState(defaultValue);
+  const controlled = value !== undefined;
+  const current = controlled ? value : internal;
+  const currentRef = useRef(current);
+  currentRef.current = current;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const controlledRef = useRef(controlled);
+  controlledRef.current = controlled;
+
+  const set = (next: T | ((prev: T) => T)) => {
+    const resolved =
+      typeof next === "function"
+        ? (next as (prev: T) => T)(currentRef.current)
+        : next;
+    if (Object.is(resolved, currentRef.current)) return;
+    // Later calls in the same event see this value, not the rendered one
+    currentRef.current = resolved;
+    if (!controlledRef.current) setInternal(resolved);
+    onChangeRef.current?.(resolved);
+  };
+
+  return [current, set] as const;
+}
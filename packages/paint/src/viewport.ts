@@ -0,0 +1,53 @@
+/**
+ * How the document is shown on screen: scaled by `zoom`, with its top-left
+ * corner at (`x`, `y`) in the stage's CSS pixels.
+ */
+export type PaintViewport = { zoom: number; x: number; y: number };
+
+export const MIN_ZOOM = 0.1;
+export const MAX_ZOOM = 16;
+
+export const clampZoom = (zoom: number) =>
+  Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+/** Zooms to `zoom` keeping the stage point (`px`, `py`) over the same spot. */
+export function zoomAt(
+  view: PaintViewport,
+  zoom: number,
+  px: number,
+  py: number,
+): PaintViewport {
+  const z = clampZoom(zoom);
+  const k = z / view.zoom;
+  return { zoom: z, x: px - (px - view.x) * k, y: py - (py - view.y) * k };
+}
+
+/**
+ * Largest zoom up to 1 at which a `width` × `height` document fits the stage,
+ * centred.
+ */
+export function fitViewport(
+  width: number,
+  height: number,
+  stageWidth: number,
+  stageHeight: number,
+): PaintViewport {
+  const zoom = clampZoom(Math.min(1, stageWidth / width, stageHeight / height));
+  return {
+    zoom,
+    x: (stageWidth - width * zoom) / 2,
+    y: (stageHeight - height * zoom) / 2,
+  };
+}
+
+/**
+ * Maps a pointer's client position to document units on `el`, a canvas laid
+ * out at document size inside the (CSS-transformed) viewport.
+ */
+export function toDocument(el: HTMLElement, clientX: number, clientY: number) {
+  const rect = el.getBoundingClientRect();
+  return {
+    x: ((clientX - rect.left) * el.offsetWidth) / rect.width,
+    y: ((clientY - rect.top) * el.offsetHeight) / rect.height,
+  };
+}
@@ -1,7 +1,8 @@
 import { defineConfig } from "tsup";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  // The stroke worker is loaded by URL, so it's built as its own module
+  entry: ["src/index.ts", "src/strokeWorker.ts"],
   format: ["esm"],
   dts: true,
   sourcemap: true,